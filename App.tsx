@@ -4,38 +4,55 @@ import HomePage from './pages/HomePage';
 import { StudyPage } from './pages/StudyPage';
 import QuizPage from './pages/QuizPage';
 import DashboardPage from './pages/DashboardPage';
-import { UploadedContentProvider } from './contexts/UploadedContentContext';
-import { AmeenaLogoIcon, HomeIcon, BarChartIcon, BookOpenIcon, ClipboardListIcon } from './components/icons/Icons';
+import SettingsPage from './pages/SettingsPage';
+import { UploadedContentProvider, useUploadedContent } from './contexts/UploadedContentContext';
+import { GenerationJobsProvider } from './contexts/GenerationJobsContext';
+import { AmeenaLogoIcon, HomeIcon, BarChartIcon, BookOpenIcon, ClipboardListIcon, Cog6ToothIcon } from './components/icons/Icons';
 import ThemeToggleButton from './components/common/ThemeToggleButton';
+import Alert from './components/common/Alert';
+import LibraryRecoveryNotice from './components/common/LibraryRecoveryNotice';
+import GenerationActivity from './components/common/GenerationActivity';
 
 const App: React.FC = () => {
   return (
     <UploadedContentProvider>
-      <HashRouter>
-        <div className="app-layout">
-          <Sidebar />
-          <main className="main-content">
-            <div className="floating-actions">
-              <ThemeToggleButton />
-            </div>
-            <Routes>
-              <Route path="/" element={<HomePage />} />
-              <Route path="/study/:contentId" element={<StudyPage />} />
-              <Route path="/quiz/:contentId" element={<QuizPage />} />
-              <Route path="/dashboard" element={<DashboardPage />} />
-            </Routes>
-          </main>
-        </div>
-      </HashRouter>
+      <GenerationJobsProvider>
+        <HashRouter>
+          <div className="app-layout">
+            <Sidebar />
+            <main className="main-content">
+              <div className="floating-actions">
+                <ThemeToggleButton />
+              </div>
+              <StorageErrorBanner />
+              <LibraryRecoveryNotice />
+              <Routes>
+                <Route path="/" element={<HomePage />} />
+                <Route path="/study/:contentId" element={<StudyPage />} />
+                <Route path="/quiz/:contentId" element={<QuizPage />} />
+                <Route path="/dashboard" element={<DashboardPage />} />
+                <Route path="/settings" element={<SettingsPage />} />
+              </Routes>
+            </main>
+          </div>
+        </HashRouter>
+      </GenerationJobsProvider>
     </UploadedContentProvider>
   );
 };
 
+const StorageErrorBanner: React.FC = () => {
+  const { storageError } = useUploadedContent();
+  if (!storageError) return null;
+  return <Alert type="error" title="Storage problem" message={storageError} style={{ marginBottom: '1.5rem' }} />;
+};
+
 const Sidebar: React.FC = () => {
   const location = useLocation();
   const navItems = [
     { path: '/', label: 'Home', icon: HomeIcon },
     { path: '/dashboard', label: 'Dashboard', icon: BarChartIcon },
+    { path: '/settings', label: 'Settings', icon: Cog6ToothIcon },
   ];
 
   const contentPathRegex = /^\/(study|quiz)\/(\w+)$/;
@@ -75,6 +92,8 @@ const Sidebar: React.FC = () => {
             </nav>
           </>
         )}
+
+        <GenerationActivity />
       </div>
 
       <div className="sidebar-footer">
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AiErrorKind, toAiServiceError } from '../../services/llm';
+import Alert from './Alert';
+import Button from './Button';
+
+interface AiErrorTreatment {
+  type: 'info' | 'error' | 'warning';
+  title: string;
+  hint: string;
+  canRetry: boolean;
+}
+
+const TREATMENTS: Record<AiErrorKind, AiErrorTreatment> = {
+  'missing-key': {
+    type: 'error',
+    title: 'AI is not set up',
+    hint: 'Check GEMINI_API_KEY (or the OPENAI_* settings for an OpenAI-compatible server) in .env.local and restart the app.',
+    canRetry: false,
+  },
+  'rate-limit': { type: 'warning', title: 'AI service is busy', hint: 'Wait a minute, then try again.', canRetry: true },
+  'safety-block': { type: 'warning', title: 'Blocked by safety filters', hint: 'Try rephrasing the request or using different material.', canRetry: false },
+  'invalid-response': { type: 'error', title: 'Unreadable AI response', hint: 'This is usually a one-off, so trying again often works.', canRetry: true },
+  'content-too-short': { type: 'info', title: 'Not enough content', hint: 'Add more text to this material first.', canRetry: false },
+  'budget-exceeded': { type: 'warning', title: 'AI budget reached', hint: 'Raise the hard budget on the Dashboard to continue.', canRetry: false },
+  'network': { type: 'error', title: 'Connection problem', hint: 'Check your internet connection, then try again.', canRetry: true },
+  'cancelled': { type: 'info', title: 'Cancelled', hint: '', canRetry: true },
+  'unknown': { type: 'error', title: 'Something went wrong', hint: 'Please try again.', canRetry: true },
+};
+
+interface AiErrorAlertProps {
+  error: unknown;
+  onRetry?: () => void;
+  style?: React.CSSProperties;
+}
+
+// Each kind of AI failure gets its own tone and advice, and a retry button only where retrying can help.
+const AiErrorAlert: React.FC<AiErrorAlertProps> = ({ error, onRetry, style }) => {
+  const aiError = toAiServiceError(error);
+  const { type, title, hint, canRetry } = TREATMENTS[aiError.kind];
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', ...style }}>
+      <Alert type={type} title={title} message={[aiError.message, hint].filter(Boolean).join(' ')} style={{ flex: 1 }} />
+      {canRetry && onRetry && <Button variant="secondary" onClick={onRetry}>Try again</Button>}
+    </div>
+  );
+};
+
+export default AiErrorAlert;
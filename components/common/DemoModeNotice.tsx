@@ -0,0 +1,18 @@
+import React from 'react';
+import { isDemoMode } from '../../services/llm';
+import Alert from './Alert';
+
+// Shown wherever AI output matters when no real model is configured, so demo output isn't mistaken for it.
+const DemoModeNotice: React.FC<{ style?: React.CSSProperties }> = ({ style }) => {
+  if (!isDemoMode()) return null;
+  return (
+    <Alert
+      type="warning"
+      title="Demo mode"
+      message="No AI model is configured, so answers come from the built-in offline demo provider and are assembled from your material. Set GEMINI_API_KEY, or point LLM_PROVIDER at an OpenAI-compatible server, for real AI output."
+      style={style}
+    />
+  );
+};
+
+export default DemoModeNotice;
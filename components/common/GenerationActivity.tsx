@@ -0,0 +1,58 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useGenerationJobs, isJobActive, GenerationJobStatus } from '../../contexts/GenerationJobsContext';
+import { useUploadedContent } from '../../contexts/UploadedContentContext';
+import LoadingSpinner from './LoadingSpinner';
+
+const STATUS_LABELS: Record<GenerationJobStatus, string> = {
+  queued: 'Waiting...',
+  running: 'Working...',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Stopped',
+};
+
+// The sidebar's view of the generation queue, visible from every page.
+const GenerationActivity: React.FC = () => {
+  const { jobs, cancelJob, retryJob, dismissJob, clearFinishedJobs } = useGenerationJobs();
+  const { getStudyMaterialById } = useUploadedContent();
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(isJobActive).length;
+  return (
+    <section className="generation-activity" aria-label="Generation activity">
+      <div className="generation-activity-header">
+        {activeCount > 0 && <LoadingSpinner size="sm" />}
+        <span>{activeCount > 0 ? `Generating (${activeCount})` : 'Activity'}</span>
+        {activeCount < jobs.length && (
+          <button type="button" className="generation-job-action" onClick={clearFinishedJobs}>Clear</button>
+        )}
+      </div>
+      <ul className="generation-job-list">
+        {jobs.map(job => (
+          <li key={job.id} className={`generation-job is-${job.status}`}>
+            <Link to={`/study/${job.materialId}`} className="generation-job-title">{job.label}</Link>
+            <span className="generation-job-material">{getStudyMaterialById(job.materialId)?.title || 'Deleted material'}</span>
+            <span className="generation-job-status" title={job.error?.message}>
+              {job.status === 'running' && job.progress ? job.progress : STATUS_LABELS[job.status]}
+            </span>
+            <div className="generation-job-actions">
+              {isJobActive(job) ? (
+                <button type="button" className="generation-job-action" onClick={() => cancelJob(job.id)}>Cancel</button>
+              ) : (
+                <>
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <button type="button" className="generation-job-action" onClick={() => retryJob(job.id)}>Retry</button>
+                  )}
+                  <button type="button" className="generation-job-action" onClick={() => dismissJob(job.id)}>Dismiss</button>
+                </>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default GenerationActivity;
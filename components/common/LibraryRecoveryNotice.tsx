@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { useUploadedContent } from '../../contexts/UploadedContentContext';
+import { QuarantinedItem } from '../../services/storageService';
+import Alert from './Alert';
+import Button from './Button';
+
+const downloadItem = (item: QuarantinedItem) => {
+  const contents = typeof item.payload === 'string' ? item.payload : JSON.stringify(item.payload, null, 2);
+  const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `ameena-recovered-${item.kind}-${item.id}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Lists saved items that couldn't be loaded, so the user can retry, keep a copy, or let them go.
+const LibraryRecoveryNotice: React.FC = () => {
+  const { quarantinedItems, restoreQuarantinedItem, discardQuarantinedItem } = useUploadedContent();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+
+  if (quarantinedItems.length === 0) return null;
+
+  const runAction = async (item: QuarantinedItem, action: (id: string) => Promise<void>) => {
+    setBusyItemId(item.id);
+    setItemErrors(prev => ({ ...prev, [item.id]: '' }));
+    try {
+      await action(item.id);
+    } catch (error: any) {
+      setItemErrors(prev => ({ ...prev, [item.id]: error.message || 'Something went wrong.' }));
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handleDiscard = (item: QuarantinedItem) => {
+    if (!window.confirm(`Permanently delete "${item.label}"? Download it first if you might want it later.`)) return;
+    runAction(item, discardQuarantinedItem);
+  };
+
+  const count = quarantinedItems.length;
+  return (
+    <div className="library-recovery" style={{ marginBottom: '1.5rem' }}>
+      <Alert
+        type="warning"
+        title={`${count} saved item${count === 1 ? '' : 's'} could not be loaded`}
+        message="They have been set aside instead of deleted. You can try restoring them, download a copy, or discard them."
+      />
+      <Button variant="ghost" onClick={() => setIsExpanded(!isExpanded)} style={{ marginTop: '0.5rem' }}>
+        {isExpanded ? 'Hide details' : 'Review items'}
+      </Button>
+      {isExpanded && (
+        <ul className="library-recovery-list">
+          {quarantinedItems.map(item => (
+            <li key={item.id} className="library-recovery-item">
+              <div>
+                <strong>{item.label}</strong>
+                <p className="library-recovery-reason">{item.reason}</p>
+                {itemErrors[item.id] && <p className="library-recovery-error">{itemErrors[item.id]}</p>}
+              </div>
+              <div className="library-recovery-actions">
+                {typeof item.payload !== 'string' && (
+                  <Button variant="secondary" onClick={() => runAction(item, restoreQuarantinedItem)} isLoading={busyItemId === item.id} disabled={busyItemId !== null}>Restore</Button>
+                )}
+                <Button variant="secondary" onClick={() => downloadItem(item)}>Download</Button>
+                <Button variant="ghost" onClick={() => handleDiscard(item)} disabled={busyItemId !== null}>Discard</Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LibraryRecoveryNotice;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { StudyMaterial } from '../../types';
+import { OUTPUT_LANGUAGES } from '../../constants';
+import { getGlobalOutputLanguage, languageName } from '../../services/languageService';
+import Button from './Button';
+
+type MaterialMetadata = Pick<StudyMaterial, 'title' | 'subject' | 'topic' | 'difficulty' | 'outputLanguage'>;
+
+interface MaterialMetadataEditorProps {
+  material: StudyMaterial;
+  onSave: (updates: MaterialMetadata) => void;
+  onCancel: () => void;
+}
+
+const MaterialMetadataEditor: React.FC<MaterialMetadataEditorProps> = ({ material, onSave, onCancel }) => {
+  const [title, setTitle] = useState(material.title || '');
+  const [subject, setSubject] = useState(material.subject || '');
+  const [topic, setTopic] = useState(material.topic || '');
+  const [difficulty, setDifficulty] = useState<'Easy' | 'Medium' | 'Hard'>(material.difficulty || 'Medium');
+  const [outputLanguage, setOutputLanguage] = useState(material.outputLanguage || ''); // Blank follows the app-wide language
+  const idPrefix = `edit-${material.id}`;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ title: title.trim() || material.title, subject: subject.trim(), topic: topic.trim(), difficulty, outputLanguage: outputLanguage || undefined });
+  };
+
+  return (
+    <form className="material-metadata-editor" onSubmit={handleSubmit}>
+      <div style={{ gridColumn: '1 / -1' }}>
+        <label htmlFor={`${idPrefix}-title`} className="form-label">Title</label>
+        <input type="text" id={`${idPrefix}-title`} className="form-input" value={title} onChange={e => setTitle(e.target.value)} required />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-subject`} className="form-label">Subject</label>
+        <input type="text" id={`${idPrefix}-subject`} className="form-input" value={subject} onChange={e => setSubject(e.target.value)} />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-topic`} className="form-label">Topic</label>
+        <input type="text" id={`${idPrefix}-topic`} className="form-input" value={topic} onChange={e => setTopic(e.target.value)} />
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-difficulty`} className="form-label">Difficulty</label>
+        <select id={`${idPrefix}-difficulty`} className="form-select" value={difficulty} onChange={e => setDifficulty(e.target.value as 'Easy' | 'Medium' | 'Hard')}>
+          <option value="Easy">Easy</option>
+          <option value="Medium">Medium</option>
+          <option value="Hard">Hard</option>
+        </select>
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-language`} className="form-label">AI output language</label>
+        <select id={`${idPrefix}-language`} className="form-select" value={outputLanguage} onChange={e => setOutputLanguage(e.target.value)}>
+          <option value="">Default ({languageName(getGlobalOutputLanguage())})</option>
+          {OUTPUT_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+        </select>
+      </div>
+      <div className="material-metadata-editor-actions">
+        <Button type="button" variant="ghost" onClick={onCancel}>Cancel</Button>
+        <Button type="submit">Save</Button>
+      </div>
+    </form>
+  );
+};
+
+export default MaterialMetadataEditor;
@@ -0,0 +1,24 @@
+import React, { useEffect, useState } from 'react';
+import { isStoredImageRef, resolveImageUrl } from '../../services/storageService';
+
+interface StoredImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  src: string; // A regular URL, or a ref to an image kept in the local library
+}
+
+// Renders an image whose bytes may live in IndexedDB, loading them only when the image is shown.
+const StoredImage: React.FC<StoredImageProps> = ({ src, alt, ...props }) => {
+  const [resolvedSrc, setResolvedSrc] = useState<string | null>(isStoredImageRef(src) ? null : src);
+
+  useEffect(() => {
+    if (!isStoredImageRef(src)) { setResolvedSrc(src); return; }
+    let isCurrent = true;
+    setResolvedSrc(null);
+    resolveImageUrl(src).then(url => { if (isCurrent) setResolvedSrc(url); });
+    return () => { isCurrent = false; };
+  }, [src]);
+
+  if (!resolvedSrc) return null;
+  return <img src={resolvedSrc} alt={alt} {...props} />;
+};
+
+export default StoredImage;
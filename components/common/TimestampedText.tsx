@@ -0,0 +1,36 @@
+import React from 'react';
+import { getYouTubeUrlAtTime, parseTimestamp } from '../../services/captionService';
+
+interface TimestampedTextProps {
+  text: string;
+  videoUrl?: string; // When set, [m:ss] markers link to that point in the video
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const TIMESTAMP_REGEX = /\[((?:\d+:)?\d{1,2}:\d{2})\]/g;
+
+// Splits text into strings and links, turning each [m:ss] marker into a link to that moment of the video.
+export const linkifyTimestamps = (text: string, videoUrl?: string, keyPrefix: string = 'ts'): React.ReactNode[] => {
+  if (!videoUrl) return [text];
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(TIMESTAMP_REGEX)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) parts.push(text.slice(lastIndex, index));
+    parts.push(
+      <a key={`${keyPrefix}-${index}`} className="timestamp-link" href={getYouTubeUrlAtTime(videoUrl, parseTimestamp(match[1]))} target="_blank" rel="noopener noreferrer">
+        {match[1]}
+      </a>
+    );
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+  return parts;
+};
+
+const TimestampedText: React.FC<TimestampedTextProps> = ({ text, videoUrl, className, style }) => (
+  <p className={className} style={{ whiteSpace: 'pre-wrap', ...style }}>{linkifyTimestamps(text, videoUrl)}</p>
+);
+
+export default TimestampedText;
@@ -5,9 +5,50 @@ export const APP_NAME = "Ameena AI";
 export const GEMINI_API_PRO_TEXT_MODEL = "gemini-2.5-flash";
 // Using the 'imagen-4.0-generate-001' Pro model for all image-based tasks.
 export const GEMINI_API_PRO_IMAGE_MODEL = "imagen-4.0-generate-001";
+// Used to embed study material passages for retrieval in chat.
+export const GEMINI_API_EMBEDDING_MODEL = "text-embedding-004";
+
+// Client-side pacing of AI requests, per model (see services/llm/scheduler.ts). Keep these under the provider's quota.
+// The text, image and embedding entries apply to every model of that kind; add a model's id to give it its own limit.
+export const LLM_MAX_CONCURRENT_REQUESTS = 3;
+export const LLM_RATE_LIMITS: Record<string, { requestsPerMinute: number; burst: number }> = {
+  text: { requestsPerMinute: 30, burst: 5 },
+  image: { requestsPerMinute: 10, burst: 2 },
+  embedding: { requestsPerMinute: 60, burst: 5 },
+};
+export const LLM_MAX_ATTEMPTS = 4; // Including the first try; only rate-limited requests are retried
+
+// List prices in USD, used to put a cost on recorded AI usage (see services/usageService.ts). Models not listed
+// count as free, which suits local servers; add an entry when pointing the app at a paid one.
+export const MODEL_PRICES_USD: Record<string, { inputPerMillionTokens?: number; outputPerMillionTokens?: number; perImage?: number }> = {
+  'gemini-2.5-flash': { inputPerMillionTokens: 0.3, outputPerMillionTokens: 2.5 },
+  'imagen-4.0-generate-001': { perImage: 0.04 },
+};
+// Features that generate images and so cost far more than text; the usage budget applies to these.
+export const BUDGETED_FEATURES = ['presentation', 'video'];
+export const USAGE_BUDGET_STORAGE_KEY = 'ameenaAiUsageBudget';
+export const PROMPT_TEMPLATES_STORAGE_KEY = 'ameenaAiPromptTemplates';
+export const MODEL_SETTINGS_STORAGE_KEY = 'ameenaAiModelSettings';
+
+// Languages the AI can write in. Codes are BCP 47, so they also pick the text-to-speech voices.
+export const OUTPUT_LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'ar', name: 'Arabic', rtl: true },
+  { code: 'ur', name: 'Urdu', rtl: true },
+  { code: 'fr', name: 'French' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'de', name: 'German' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'id', name: 'Indonesian' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'zh', name: 'Chinese' },
+];
+export const DEFAULT_OUTPUT_LANGUAGE = 'en';
+export const OUTPUT_LANGUAGE_STORAGE_KEY = 'ameenaAiOutputLanguage';
 
 export const DEFAULT_QUIZ_DURATION_SECONDS = 5 * 60; // 5 minutes per quiz
 export const DEFAULT_QUIZ_QUESTIONS_count = 5;
 
+// The library used to live under these localStorage keys; it is moved to IndexedDB on first load.
 export const LOCAL_STORAGE_CONTENT_KEY = 'ameenaAiContent';
 export const LOCAL_STORAGE_QUIZZES_KEY = 'ameenaAiQuizzes';
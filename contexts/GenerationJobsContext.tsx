@@ -0,0 +1,188 @@
+import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect, useRef } from 'react';
+import { StudyMaterial } from '../types';
+import { AiServiceError, toAiServiceError } from '../services/llm';
+import { tagUsage } from '../services/usageService';
+import { useUploadedContent } from './UploadedContentContext';
+
+export type GenerationJobKind = 'explanation' | 'notes' | 'presentation' | 'diagram' | 'video' | 'translation';
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// What a running job gets. Results go through updateMaterial so they land even if the page that started the job is gone.
+export interface GenerationJobContext {
+  signal: AbortSignal;
+  onProgress: (progress: string) => void;
+  onText: (text: string) => void;
+  onCacheHit: () => void;
+  updateMaterial: (updates: Partial<StudyMaterial> | ((material: StudyMaterial) => Partial<StudyMaterial>)) => void;
+}
+
+export interface GenerationJobRequest {
+  materialId: string;
+  kind: GenerationJobKind;
+  variant?: string; // Tells jobs of one kind apart, e.g. the note length
+  label: string;
+  run: (context: GenerationJobContext) => Promise<void>;
+}
+
+export interface GenerationJob {
+  id: string;
+  materialId: string;
+  kind: GenerationJobKind;
+  variant?: string;
+  label: string;
+  status: GenerationJobStatus;
+  progress: string;
+  streamingText: string;
+  cached?: boolean; // The result came from the response cache rather than a model call
+  error?: AiServiceError;
+  createdAt: string;
+}
+
+interface GenerationJobsContextType {
+  jobs: GenerationJob[];
+  startJob: (request: GenerationJobRequest) => void;
+  cancelJob: (jobId: string) => void;
+  retryJob: (jobId: string) => void;
+  dismissJob: (jobId: string) => void;
+  clearFinishedJobs: () => void;
+  // Without a variant, an active job of the kind wins over a finished one.
+  getJob: (materialId: string, kind: GenerationJobKind, variant?: string) => GenerationJob | undefined;
+}
+
+export const isJobActive = (job?: GenerationJob): boolean => job?.status === 'queued' || job?.status === 'running';
+
+// A material has one job per kind and variant. Jobs in different slots run side by side: each writes its result with a
+// functional update, and the LLM scheduler caps how many requests are in flight.
+const isSameSlot = (a: Pick<GenerationJob, 'materialId' | 'kind' | 'variant'>, b: Pick<GenerationJob, 'materialId' | 'kind' | 'variant'>) =>
+  a.materialId === b.materialId && a.kind === b.kind && a.variant === b.variant;
+
+const GenerationJobsContext = createContext<GenerationJobsContextType | undefined>(undefined);
+
+export const GenerationJobsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { updateStudyMaterial } = useUploadedContent();
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+
+  // Scheduling reads and writes the ref so it never sees a stale list; the state mirrors it for rendering.
+  const jobsRef = useRef<GenerationJob[]>([]);
+  const requestsRef = useRef(new Map<string, GenerationJobRequest>());
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const commit = useCallback((next: GenerationJob[]) => {
+    jobsRef.current = next;
+    setJobs(next);
+  }, []);
+
+  const patchJob = useCallback((jobId: string, patch: Partial<GenerationJob>) => {
+    commit(jobsRef.current.map(job => (job.id === jobId ? { ...job, ...patch } : job)));
+  }, [commit]);
+
+  // Starts every queued job.
+  const pump = useCallback(function pump() {
+    for (const job of jobsRef.current) {
+      if (job.status !== 'queued') continue;
+      const request = requestsRef.current.get(job.id);
+      if (!request) continue;
+
+      const controller = new AbortController();
+      controllersRef.current.set(job.id, controller);
+      tagUsage(controller.signal, { feature: job.kind, materialId: job.materialId });
+      patchJob(job.id, { status: 'running', error: undefined, cached: false });
+      request.run({
+        signal: controller.signal,
+        onProgress: progress => patchJob(job.id, { progress }),
+        onText: streamingText => patchJob(job.id, { streamingText }),
+        onCacheHit: () => patchJob(job.id, { cached: true }),
+        updateMaterial: updates => updateStudyMaterial(job.materialId, updates),
+      })
+        .then(() => patchJob(job.id, { status: controller.signal.aborted ? 'cancelled' : 'succeeded' }))
+        .catch(error => {
+          if (controller.signal.aborted) {
+            patchJob(job.id, { status: 'cancelled' });
+            return;
+          }
+          console.error(`Generation job "${job.label}" failed:`, error);
+          patchJob(job.id, { status: 'failed', error: toAiServiceError(error) });
+        })
+        .finally(() => {
+          controllersRef.current.delete(job.id);
+          patchJob(job.id, { progress: '', streamingText: '' });
+          pump();
+        });
+    }
+  }, [patchJob, updateStudyMaterial]);
+
+  const startJob = useCallback((request: GenerationJobRequest) => {
+    const inSlot = (job: GenerationJob) => isSameSlot(job, request);
+    if (jobsRef.current.some(job => inSlot(job) && isJobActive(job))) return; // Already under way
+
+    // The finished job it replaces is dropped.
+    const replaced = jobsRef.current.filter(inSlot);
+    replaced.forEach(job => requestsRef.current.delete(job.id));
+
+    const job: GenerationJob = {
+      id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+      materialId: request.materialId,
+      kind: request.kind,
+      variant: request.variant,
+      label: request.label,
+      status: 'queued',
+      progress: '',
+      streamingText: '',
+      createdAt: new Date().toISOString(),
+    };
+    requestsRef.current.set(job.id, request);
+    commit([...jobsRef.current.filter(existing => !inSlot(existing)), job]);
+    pump();
+  }, [commit, pump]);
+
+  const cancelJob = useCallback((jobId: string) => {
+    const job = jobsRef.current.find(existing => existing.id === jobId);
+    if (job?.status === 'queued') patchJob(jobId, { status: 'cancelled' });
+    else controllersRef.current.get(jobId)?.abort();
+  }, [patchJob]);
+
+  const retryJob = useCallback((jobId: string) => {
+    const request = requestsRef.current.get(jobId);
+    if (request) startJob(request);
+  }, [startJob]);
+
+  const dismissJob = useCallback((jobId: string) => {
+    if (isJobActive(jobsRef.current.find(job => job.id === jobId))) return;
+    requestsRef.current.delete(jobId);
+    commit(jobsRef.current.filter(job => job.id !== jobId));
+  }, [commit]);
+
+  const clearFinishedJobs = useCallback(() => {
+    const finished = jobsRef.current.filter(job => !isJobActive(job));
+    finished.forEach(job => requestsRef.current.delete(job.id));
+    commit(jobsRef.current.filter(isJobActive));
+  }, [commit]);
+
+  const getJob = useCallback((materialId: string, kind: GenerationJobKind, variant?: string) => {
+    const matching = jobs.filter(job => job.materialId === materialId && job.kind === kind && (variant === undefined || job.variant === variant));
+    return matching.find(isJobActive) || matching[matching.length - 1];
+  }, [jobs]);
+
+  // Closing the tab is the one thing jobs can't survive, so ask first.
+  const hasActiveJobs = jobs.some(isJobActive);
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [hasActiveJobs]);
+
+  return (
+    <GenerationJobsContext.Provider value={{ jobs, startJob, cancelJob, retryJob, dismissJob, clearFinishedJobs, getJob }}>
+      {children}
+    </GenerationJobsContext.Provider>
+  );
+};
+
+export const useGenerationJobs = (): GenerationJobsContextType => {
+  const context = useContext(GenerationJobsContext);
+  if (context === undefined) {
+    throw new Error('useGenerationJobs must be used within a GenerationJobsProvider');
+  }
+  return context;
+};
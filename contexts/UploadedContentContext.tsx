@@ -1,65 +1,148 @@
-
-
-
-import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect } from 'react';
+import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect, useRef } from 'react';
 import { StudyMaterial, UploadedContent, Quiz } from '../types';
-import { LOCAL_STORAGE_CONTENT_KEY, LOCAL_STORAGE_QUIZZES_KEY } from '../constants';
+import * as storageService from '../services/storageService';
+import * as backupService from '../services/backupService';
 
 interface UploadedContentContextType {
   studyMaterials: StudyMaterial[];
+  isLibraryLoaded: boolean;
+  storageError: string | null;
+  quarantinedItems: storageService.QuarantinedItem[];
+  restoreQuarantinedItem: (id: string) => Promise<void>;
+  discardQuarantinedItem: (id: string) => Promise<void>;
   addContent: (content: UploadedContent) => void;
-  updateStudyMaterial: (materialId: string, updates: Partial<StudyMaterial>) => void;
+  // Pass a function to derive the updates from the latest version of the material.
+  updateStudyMaterial: (materialId: string, updates: Partial<StudyMaterial> | ((material: StudyMaterial) => Partial<StudyMaterial>)) => void;
+  setStudyMaterialArchived: (materialId: string, isArchived: boolean) => void;
+  moveStudyMaterialToTrash: (materialId: string) => void;
+  restoreStudyMaterialFromTrash: (materialId: string) => void;
+  deleteStudyMaterial: (materialId: string) => void;
   getStudyMaterialById: (id: string) => StudyMaterial | undefined;
   addQuizResult: (contentId: string, quizResult: Quiz) => void;
+  updateQuizResult: (quizId: string, updates: Partial<Quiz>) => void;
   getQuizzesForContent: (contentId: string) => Quiz[];
+  deleteQuizResult: (quizId: string) => void;
+  exportLibrary: (materialIds?: string[]) => Promise<Blob>;
+  importLibrary: (file: File, conflictMode: backupService.ImportConflictMode) => Promise<backupService.ImportSummary>;
 }
 
 const UploadedContentContext = createContext<UploadedContentContextType | undefined>(undefined);
 
+const STORAGE_ERROR_MESSAGE = "Your latest changes could not be saved on this device. They will be lost when you close the app.";
+
 export const UploadedContentProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [studyMaterials, setStudyMaterials] = useState<StudyMaterial[]>(() => {
-    try {
-      const savedMaterials = localStorage.getItem(LOCAL_STORAGE_CONTENT_KEY);
-      return savedMaterials ? JSON.parse(savedMaterials) : [];
-    } catch (error) {
-      console.error("Failed to parse study materials from localStorage:", error);
-      localStorage.removeItem(LOCAL_STORAGE_CONTENT_KEY); // Clear corrupted data
-      return [];
-    }
-  });
-
-  const [allQuizzes, setAllQuizzes] = useState<Quiz[]>(() => {
-    try {
-      const savedQuizzes = localStorage.getItem(LOCAL_STORAGE_QUIZZES_KEY);
-      return savedQuizzes ? JSON.parse(savedQuizzes) : [];
-    } catch (error) {
-      console.error("Failed to parse quizzes from localStorage:", error);
-      localStorage.removeItem(LOCAL_STORAGE_QUIZZES_KEY); // Clear corrupted data
-      return [];
-    }
-  });
+  const [studyMaterials, setStudyMaterials] = useState<StudyMaterial[]>([]);
+  const [allQuizzes, setAllQuizzes] = useState<Quiz[]>([]);
+  const [isLibraryLoaded, setIsLibraryLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [quarantinedItems, setQuarantinedItems] = useState<storageService.QuarantinedItem[]>([]);
+
+  // What was last loaded or saved, so only materials and quizzes that actually changed are written.
+  const persistedMaterialsRef = useRef(new Map<string, StudyMaterial>());
+  const persistedQuizzesRef = useRef(new Set<string>());
 
   useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_CONTENT_KEY, JSON.stringify(studyMaterials));
-  }, [studyMaterials]);
-  
+    let isCurrent = true;
+    storageService.loadLibrary()
+      .then(({ materials, quizzes, quarantined }) => {
+        if (!isCurrent) return;
+        persistedMaterialsRef.current = new Map(materials.map(material => [material.id, material]));
+        persistedQuizzesRef.current = new Set(quizzes.map(quiz => quiz.id));
+        // Keep anything added while the library was still loading.
+        setStudyMaterials(prev => [...materials, ...prev.filter(material => !persistedMaterialsRef.current.has(material.id))]);
+        setAllQuizzes(prev => [...quizzes, ...prev.filter(quiz => !persistedQuizzesRef.current.has(quiz.id))]);
+        setQuarantinedItems(quarantined);
+      })
+      .catch(error => {
+        console.error("Failed to load study materials:", error);
+        if (isCurrent) setStorageError(error.message || STORAGE_ERROR_MESSAGE);
+      })
+      .finally(() => { if (isCurrent) setIsLibraryLoaded(true); });
+    return () => { isCurrent = false; };
+  }, []);
+
   useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_QUIZZES_KEY, JSON.stringify(allQuizzes));
-  }, [allQuizzes]);
+    if (!isLibraryLoaded) return;
+    for (const material of studyMaterials) {
+      if (persistedMaterialsRef.current.get(material.id) === material) continue;
+      persistedMaterialsRef.current.set(material.id, material);
+      storageService.saveMaterial(material).catch(error => {
+        console.error("Failed to save study material:", error);
+        persistedMaterialsRef.current.delete(material.id); // Retried on the next change
+        setStorageError(STORAGE_ERROR_MESSAGE);
+      });
+    }
+  }, [studyMaterials, isLibraryLoaded]);
+
+  useEffect(() => {
+    if (!isLibraryLoaded) return;
+    for (const quiz of allQuizzes) {
+      if (persistedQuizzesRef.current.has(quiz.id)) continue;
+      persistedQuizzesRef.current.add(quiz.id);
+      storageService.saveQuiz(quiz).catch(error => {
+        console.error("Failed to save quiz result:", error);
+        persistedQuizzesRef.current.delete(quiz.id);
+        setStorageError(STORAGE_ERROR_MESSAGE);
+      });
+    }
+  }, [allQuizzes, isLibraryLoaded]);
+
+  // Restored records are already saved, so they are marked as persisted before entering state.
+  const restoreQuarantinedItem = useCallback(async (id: string) => {
+    const { material, quiz } = await storageService.restoreQuarantinedItem(id);
+    if (material) {
+      persistedMaterialsRef.current.set(material.id, material);
+      setStudyMaterials(prev => [...prev.filter(m => m.id !== material.id), material]);
+    }
+    if (quiz) {
+      persistedQuizzesRef.current.add(quiz.id);
+      setAllQuizzes(prev => [...prev.filter(q => q.id !== quiz.id), quiz]);
+    }
+    setQuarantinedItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const discardQuarantinedItem = useCallback(async (id: string) => {
+    await storageService.discardQuarantinedItem(id);
+    setQuarantinedItems(prev => prev.filter(item => item.id !== id));
+  }, []);
 
   const addContent = useCallback((content: UploadedContent) => {
     const newMaterial: StudyMaterial = { ...content, chatHistory: [] };
     setStudyMaterials(prev => [...prev, newMaterial]);
   }, []);
 
-  const updateStudyMaterial = useCallback((materialId: string, updates: Partial<StudyMaterial>) => {
+  const updateStudyMaterial = useCallback((materialId: string, updates: Partial<StudyMaterial> | ((material: StudyMaterial) => Partial<StudyMaterial>)) => {
     setStudyMaterials(prev =>
       prev.map(material =>
-        material.id === materialId ? { ...material, ...updates } : material
+        material.id === materialId ? { ...material, ...(typeof updates === 'function' ? updates(material) : updates) } : material
       )
     );
   }, []);
 
+  const setStudyMaterialArchived = useCallback((materialId: string, isArchived: boolean) => {
+    updateStudyMaterial(materialId, { archivedAt: isArchived ? new Date().toISOString() : undefined });
+  }, [updateStudyMaterial]);
+
+  const moveStudyMaterialToTrash = useCallback((materialId: string) => {
+    updateStudyMaterial(materialId, { trashedAt: new Date().toISOString() });
+  }, [updateStudyMaterial]);
+
+  const restoreStudyMaterialFromTrash = useCallback((materialId: string) => {
+    updateStudyMaterial(materialId, { trashedAt: undefined });
+  }, [updateStudyMaterial]);
+
+  // Permanent: the material's quiz results and images go with it.
+  const deleteStudyMaterial = useCallback((materialId: string) => {
+    const quizIds = allQuizzes.filter(quiz => quiz.contentId === materialId).map(quiz => quiz.id);
+    persistedMaterialsRef.current.delete(materialId);
+    setStudyMaterials(prev => prev.filter(material => material.id !== materialId));
+    setAllQuizzes(prev => prev.filter(quiz => quiz.contentId !== materialId));
+    storageService.deleteMaterial(materialId, quizIds).catch(error => {
+      console.error("Failed to delete study material:", error);
+      setStorageError("The material could not be removed from this device's storage. It may reappear after a reload.");
+    });
+  }, [allQuizzes]);
+
   const getStudyMaterialById = useCallback((id: string): StudyMaterial | undefined => {
     return studyMaterials.find(material => material.id === id);
   }, [studyMaterials]);
@@ -68,12 +151,49 @@ export const UploadedContentProvider: React.FC<{ children: ReactNode }> = ({ chi
     setAllQuizzes(prevQuizzes => [...prevQuizzes, quizResult]);
   }, []);
 
+  // Forgetting that the quiz was saved makes the effect above save it again.
+  const updateQuizResult = useCallback((quizId: string, updates: Partial<Quiz>) => {
+    persistedQuizzesRef.current.delete(quizId);
+    setAllQuizzes(prev => prev.map(quiz => (quiz.id === quizId ? { ...quiz, ...updates } : quiz)));
+  }, []);
+
+  const deleteQuizResult = useCallback((quizId: string) => {
+    setAllQuizzes(prev => prev.filter(quiz => quiz.id !== quizId));
+    storageService.deleteQuiz(quizId).catch(error => {
+      console.error("Failed to delete quiz result:", error);
+      setStorageError("The quiz result could not be removed from this device's storage. It may reappear after a reload.");
+    });
+  }, []);
+
   const getQuizzesForContent = useCallback((contentId: string): Quiz[] => {
     return allQuizzes.filter(quiz => quiz.contentId === contentId);
   }, [allQuizzes]);
 
+  // Exports the whole library except the trash, or only the given materials, with their quiz results.
+  const exportLibrary = useCallback((materialIds?: string[]): Promise<Blob> => {
+    const materials = materialIds
+      ? studyMaterials.filter(material => materialIds.includes(material.id))
+      : studyMaterials.filter(material => !material.trashedAt);
+    return backupService.exportLibrary(materials, allQuizzes);
+  }, [studyMaterials, allQuizzes]);
+
+  const importLibrary = useCallback(async (file: File, conflictMode: backupService.ImportConflictMode) => {
+    const backup = await backupService.readBackup(file);
+    const { materials, quizzes, summary } = backupService.planImport(studyMaterials, allQuizzes, backup, conflictMode);
+    const importedMaterialIds = new Set(materials.map(material => material.id));
+    const importedQuizIds = new Set(quizzes.map(quiz => quiz.id));
+    importedQuizIds.forEach(id => persistedQuizzesRef.current.delete(id)); // Overwritten quizzes must be written again
+    setStudyMaterials(prev => [...prev.filter(material => !importedMaterialIds.has(material.id)), ...materials]);
+    setAllQuizzes(prev => [...prev.filter(quiz => !importedQuizIds.has(quiz.id)), ...quizzes]);
+    return summary;
+  }, [studyMaterials, allQuizzes]);
+
   return (
-    <UploadedContentContext.Provider value={{ studyMaterials, addContent, updateStudyMaterial, getStudyMaterialById, addQuizResult, getQuizzesForContent }}>
+    <UploadedContentContext.Provider value={{
+      studyMaterials, isLibraryLoaded, storageError, quarantinedItems, restoreQuarantinedItem, discardQuarantinedItem,
+      addContent, updateStudyMaterial, setStudyMaterialArchived, moveStudyMaterialToTrash, restoreStudyMaterialFromTrash, deleteStudyMaterial,
+      getStudyMaterialById, addQuizResult, updateQuizResult, getQuizzesForContent, deleteQuizResult, exportLibrary, importLibrary,
+    }}>
       {children}
     </UploadedContentContext.Provider>
   );
@@ -0,0 +1,21 @@
+import { GenerationJobRequest } from './GenerationJobsContext';
+import * as geminiService from '../services/geminiService';
+import { CachePolicy } from '../services/responseCacheService';
+
+// Shared by the study page and the upload form, which hands a new material's first explanation to the job queue.
+export const explanationJobRequest = (materialId: string, content: string, language?: string, cachePolicy?: CachePolicy): GenerationJobRequest => ({
+  materialId,
+  kind: 'explanation',
+  label: 'Explanation',
+  run: async ({ signal, onProgress, onText, onCacheHit, updateMaterial }) => {
+    const templateVersion = geminiService.templateVersionFor('explanation');
+    const modelSettings = geminiService.modelSettingsFor('explanation');
+    const explanation = await geminiService.generateExplanation(content, onProgress, signal, onText, { policy: cachePolicy, onCacheHit }, language);
+    if (!explanation) return; // Empty when stopped before any text arrived
+    updateMaterial(current => ({
+      aiExplanation: explanation,
+      templateVersions: { ...current.templateVersions, explanation: templateVersion },
+      modelSettings: { ...current.modelSettings, explanation: modelSettings },
+    }));
+  },
+});
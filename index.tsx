@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { startUsageTracking } from './services/usageService';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -18,6 +19,8 @@ try {
   }
 } catch {}
 
+startUsageTracking();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -1,19 +1,33 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useUploadedContent } from '../contexts/UploadedContentContext';
 import { StudyMaterial, Quiz } from '../types';
 import Button from '../components/common/Button';
-import { BarChartIcon, BookOpenIcon, ClipboardListIcon, SparklesIcon, UploadIcon } from '../components/icons/Icons';
+import LoadingSpinner from '../components/common/LoadingSpinner';
+import Alert from '../components/common/Alert';
+import { ImportConflictMode, ImportSummary } from '../services/backupService';
+import { clearResponseCache } from '../services/storageService';
+import { UsageSummary, UsageTotals, UsageBudget, loadUsageSummary, onUsageChange, getUsageBudget, saveUsageBudget, startOfMonth, formatUsd } from '../services/usageService';
+import MaterialMetadataEditor from '../components/common/MaterialMetadataEditor';
+import { BarChartIcon, BookOpenIcon, ClipboardListIcon, DownloadIcon, PencilSquareIcon, SparklesIcon, UploadIcon } from '../components/icons/Icons';
 
 const DashboardPage: React.FC = () => {
-  const { studyMaterials, getQuizzesForContent } = useUploadedContent();
+  const { studyMaterials, getQuizzesForContent, isLibraryLoaded } = useUploadedContent();
+  const [showArchived, setShowArchived] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
 
-  const getTotalQuizzesTaken = () => studyMaterials.reduce((acc, material) => acc + (getQuizzesForContent(material.id)?.length || 0), 0);
+  // Stats cover archived materials too; only the trash is left out.
+  const keptMaterials = studyMaterials.filter(material => !material.trashedAt);
+  const activeMaterials = keptMaterials.filter(material => !material.archivedAt);
+  const archivedMaterials = keptMaterials.filter(material => material.archivedAt);
+  const trashedMaterials = studyMaterials.filter(material => material.trashedAt);
+
+  const getTotalQuizzesTaken = () => keptMaterials.reduce((acc, material) => acc + (getQuizzesForContent(material.id)?.length || 0), 0);
 
   const getAverageQuizScore = () => {
     let totalScore = 0;
     let totalQuestions = 0;
-    studyMaterials.forEach(material => {
+    keptMaterials.forEach(material => {
       getQuizzesForContent(material.id)?.forEach(quiz => {
         if (typeof quiz.score === 'number' && quiz.questions.length > 0) {
           totalScore += quiz.score;
@@ -25,7 +39,9 @@ const DashboardPage: React.FC = () => {
     return parseFloat((totalScore / totalQuestions * 100).toFixed(1));
   };
   
-  const recentActivities = [...studyMaterials].sort((a,b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime()).slice(0, 5);
+  const recentActivities = [...activeMaterials].sort((a,b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime()).slice(0, 5);
+
+  if (!isLibraryLoaded) return <LoadingSpinner text="Loading your library..." />;
 
   if (studyMaterials.length === 0) {
     return (
@@ -38,6 +54,9 @@ const DashboardPage: React.FC = () => {
         <Link to="/">
             <Button leftIcon={<UploadIcon />}>Upload Content</Button>
         </Link>
+        <div style={{ marginTop: '2rem', width: '100%', maxWidth: '32rem', textAlign: 'left' }}>
+          <LibraryBackupPanel />
+        </div>
       </div>
     );
   }
@@ -58,7 +77,7 @@ const DashboardPage: React.FC = () => {
       </header>
 
       <div className="dashboard-grid">
-        <StatCard title="Materials Logged" value={studyMaterials.length.toString()} icon={BookOpenIcon} />
+        <StatCard title="Materials Logged" value={keptMaterials.length.toString()} icon={BookOpenIcon} />
         <StatCard title="Quizzes Taken" value={getTotalQuizzesTaken().toString()} icon={ClipboardListIcon} />
         <StatCard title="Average Quiz Score" value={`${averageScore}%`} subText={getSubText(averageScore)} icon={BarChartIcon} />
       </div>
@@ -67,16 +86,41 @@ const DashboardPage: React.FC = () => {
         <div>
           <h2>All Study Materials</h2>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-            {studyMaterials.map(material => (
+            {activeMaterials.length === 0 && <p>All your materials are archived or in the trash.</p>}
+            {activeMaterials.map(material => (
               <MaterialCard key={material.id} material={material} quizzes={getQuizzesForContent(material.id)} />
             ))}
           </div>
+          {archivedMaterials.length > 0 && (
+            <div className="dashboard-material-section">
+              <Button variant="ghost" onClick={() => setShowArchived(!showArchived)}>
+                {showArchived ? 'Hide' : 'Show'} archived ({archivedMaterials.length})
+              </Button>
+              {showArchived && archivedMaterials.map(material => (
+                <MaterialCard key={material.id} material={material} quizzes={getQuizzesForContent(material.id)} />
+              ))}
+            </div>
+          )}
+          {trashedMaterials.length > 0 && (
+            <div className="dashboard-material-section">
+              <Button variant="ghost" onClick={() => setShowTrash(!showTrash)}>
+                {showTrash ? 'Hide' : 'Show'} trash ({trashedMaterials.length})
+              </Button>
+              {showTrash && trashedMaterials.map(material => (
+                <MaterialCard key={material.id} material={material} quizzes={getQuizzesForContent(material.id)} />
+              ))}
+            </div>
+          )}
         </div>
         <div>
           <h2>Recent Activity</h2>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
             {recentActivities.map(material => <ActivityItem key={material.id} material={material} />)}
           </div>
+          <h2 style={{ marginTop: '2rem' }}>AI Usage</h2>
+          <UsagePanel />
+          <h2 style={{ marginTop: '2rem' }}>Backup &amp; Restore</h2>
+          <LibraryBackupPanel />
         </div>
       </div>
     </div>
@@ -104,6 +148,204 @@ const StatCard: React.FC<StatCardProps> = ({ title, value, subText, icon: Icon }
   </div>
 );
 
+const describeImport = (summary: ImportSummary): string => {
+  const parts = [
+    summary.added && `${summary.added} added`,
+    summary.overwritten && `${summary.overwritten} overwritten`,
+    summary.duplicated && `${summary.duplicated} copied`,
+    summary.skipped && `${summary.skipped} skipped (already in your library)`,
+  ].filter(Boolean);
+  let text = `Materials: ${parts.length > 0 ? parts.join(', ') : 'none'}. Quiz results imported: ${summary.quizzesImported}.`;
+  if (summary.invalid > 0) text += ` ${summary.invalid} damaged item(s) in the backup were left out.`;
+  return text;
+};
+
+// Exports the library (or chosen materials) to a .zip archive and merges such archives back in.
+const LibraryBackupPanel: React.FC = () => {
+  const { studyMaterials, exportLibrary, importLibrary } = useUploadedContent();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [conflictMode, setConflictMode] = useState<ImportConflictMode>('skip');
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const handleExport = async (materialIds?: string[]) => {
+    setIsExporting(true);
+    setResult(null);
+    try {
+      const archive = await exportLibrary(materialIds);
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `ameena-library-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setIsSelecting(false);
+      setSelectedIds([]);
+    } catch (err: any) {
+      console.error("Library export failed:", err);
+      setResult({ type: 'error', message: err.message || 'The export failed.' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Lets the same file be chosen again
+    if (!file) return;
+    setIsImporting(true);
+    setResult(null);
+    try {
+      const summary = await importLibrary(file, conflictMode);
+      setResult({ type: 'success', message: describeImport(summary) });
+    } catch (err: any) {
+      console.error("Library import failed:", err);
+      setResult({ type: 'error', message: err.message || 'The import failed.' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClearCache = async () => {
+    setResult(null);
+    try {
+      await clearResponseCache();
+      setResult({ type: 'success', message: 'Cleared saved AI responses. The next generation of each item will call the AI again.' });
+    } catch (err: any) {
+      console.error("Clearing the response cache failed:", err);
+      setResult({ type: 'error', message: err.message || 'Could not clear saved AI responses.' });
+    }
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]));
+
+  return (
+    <div className="card library-backup-panel">
+      <p style={{ marginTop: 0 }}>Move your materials, notes, chats and quiz results to another browser or device.</p>
+      {studyMaterials.length > 0 && (
+        <div className="library-backup-actions">
+          <Button leftIcon={<DownloadIcon />} onClick={() => handleExport()} isLoading={isExporting && !isSelecting} disabled={isExporting}>Export library</Button>
+          <Button variant="secondary" onClick={() => setIsSelecting(!isSelecting)} disabled={isExporting}>{isSelecting ? 'Cancel' : 'Choose materials...'}</Button>
+        </div>
+      )}
+      {isSelecting && (
+        <div className="library-backup-selection">
+          {studyMaterials.map(material => (
+            <label key={material.id}>
+              <input type="checkbox" checked={selectedIds.includes(material.id)} onChange={() => toggleSelected(material.id)} />
+              <span>{material.title || material.fileName || 'Untitled'}</span>
+            </label>
+          ))}
+          <Button onClick={() => handleExport(selectedIds)} isLoading={isExporting} disabled={isExporting || selectedIds.length === 0}>
+            Export {selectedIds.length} selected
+          </Button>
+        </div>
+      )}
+      <div className="library-backup-import">
+        <label className="form-label" htmlFor="import-conflict-mode">When a material is already in your library</label>
+        <select id="import-conflict-mode" className="form-select" value={conflictMode} onChange={e => setConflictMode(e.target.value as ImportConflictMode)}>
+          <option value="skip">Keep mine and skip the imported one</option>
+          <option value="overwrite">Replace mine with the imported one</option>
+          <option value="duplicate">Keep both (import as a copy)</option>
+        </select>
+        <input ref={fileInputRef} type="file" accept=".zip,application/zip" onChange={handleImportFile} style={{ display: 'none' }} />
+        <Button variant="secondary" leftIcon={<UploadIcon />} onClick={() => fileInputRef.current?.click()} isLoading={isImporting} disabled={isImporting}>Import backup</Button>
+      </div>
+      <Button variant="ghost" onClick={handleClearCache} style={{ marginTop: '1rem' }}>Clear saved AI responses</Button>
+      {result && <Alert type={result.type} message={result.message} style={{ marginTop: '1rem' }} />}
+    </div>
+  );
+};
+
+const FEATURE_LABELS: Record<string, string> = {
+  explanation: 'Explanations',
+  notes: 'Notes',
+  presentation: 'Presentations',
+  diagram: 'Diagrams',
+  video: 'Videos',
+  translation: 'Translations',
+  chat: 'Chat',
+  quiz: 'Quizzes',
+  other: 'Other',
+};
+const RECENT_DAYS_SHOWN = 7;
+
+const parseLimit = (value: string): number | null => (value.trim() === '' || !(Number(value) >= 0) ? null : Number(value));
+
+const describeTotals = (totals: UsageTotals) =>
+  `${formatUsd(totals.costUsd)} · ${(totals.inputTokens + totals.outputTokens).toLocaleString()} tokens${totals.images ? ` · ${totals.images} images` : ''}`;
+
+const UsageTable: React.FC<{ rows: [string, UsageTotals][] }> = ({ rows }) => (
+  <table className="usage-table">
+    <tbody>
+      {rows.map(([label, totals]) => (
+        <tr key={label}><td>{label}</td><td>{describeTotals(totals)}</td></tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// This month's AI spending by feature, material and day, and the budget that guards the image-heavy features.
+const UsagePanel: React.FC = () => {
+  const { studyMaterials } = useUploadedContent();
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [budget, setBudget] = useState<UsageBudget>(getUsageBudget);
+  const [softLimit, setSoftLimit] = useState(budget.softLimitUsd?.toString() ?? '');
+  const [hardLimit, setHardLimit] = useState(budget.hardLimitUsd?.toString() ?? '');
+
+  useEffect(() => {
+    const refresh = () => {
+      setBudget(getUsageBudget());
+      loadUsageSummary(startOfMonth()).then(setSummary).catch(error => console.error("Could not load AI usage:", error));
+    };
+    refresh();
+    return onUsageChange(refresh);
+  }, []);
+
+  const handleSaveBudget = () => saveUsageBudget({ softLimitUsd: parseLimit(softLimit), hardLimitUsd: parseLimit(hardLimit) });
+
+  if (!summary) return <div className="card"><LoadingSpinner text="Loading usage..." /></div>;
+
+  const spent = summary.total.costUsd;
+  const titleOf = (materialId: string) =>
+    materialId ? studyMaterials.find(material => material.id === materialId)?.title || 'Deleted material' : 'Not tied to a material';
+  const byCost = (a: [string, UsageTotals], b: [string, UsageTotals]) => b[1].costUsd - a[1].costUsd;
+
+  return (
+    <div className="card usage-panel">
+      <p style={{ marginTop: 0 }}>This month: <strong>{describeTotals(summary.total)}</strong> over {summary.total.requests} requests.</p>
+      {budget.hardLimitUsd !== null && spent >= budget.hardLimitUsd ? (
+        <Alert type="error" message={`The ${formatUsd(budget.hardLimitUsd)} hard budget is used up, so presentations and videos are blocked until next month or until you raise it.`} />
+      ) : budget.softLimitUsd !== null && spent >= budget.softLimitUsd ? (
+        <Alert type="warning" message={`Past the ${formatUsd(budget.softLimitUsd)} soft budget. Presentations and videos will ask before they start.`} />
+      ) : null}
+      {summary.total.requests === 0 ? (
+        <p>No AI usage recorded this month.</p>
+      ) : (
+        <>
+          <h3>By feature</h3>
+          <UsageTable rows={Object.entries(summary.byFeature).sort(byCost).map(([feature, totals]) => [FEATURE_LABELS[feature] || feature, totals])} />
+          <h3>By material</h3>
+          <UsageTable rows={Object.entries(summary.byMaterial).sort(byCost).map(([materialId, totals]) => [titleOf(materialId), totals])} />
+          <h3>By day</h3>
+          <UsageTable rows={Object.entries(summary.byDay).sort(([a], [b]) => b.localeCompare(a)).slice(0, RECENT_DAYS_SHOWN)} />
+        </>
+      )}
+      <div className="usage-budget-form">
+        <label className="form-label" htmlFor="usage-soft-limit">Monthly soft budget (USD)</label>
+        <input id="usage-soft-limit" className="form-input" type="number" min="0" step="0.01" placeholder="No limit" value={softLimit} onChange={e => setSoftLimit(e.target.value)} />
+        <label className="form-label" htmlFor="usage-hard-limit">Monthly hard budget (USD)</label>
+        <input id="usage-hard-limit" className="form-input" type="number" min="0" step="0.01" placeholder="No limit" value={hardLimit} onChange={e => setHardLimit(e.target.value)} />
+        <Button variant="secondary" onClick={handleSaveBudget}>Save budget</Button>
+      </div>
+    </div>
+  );
+};
+
 const ActivityItem: React.FC<{ material: StudyMaterial }> = ({ material }) => (
   <div className="activity-item">
     <Link to={`/study/${material.id}`}>
@@ -114,20 +356,45 @@ const ActivityItem: React.FC<{ material: StudyMaterial }> = ({ material }) => (
 );
 
 const MaterialCard: React.FC<{ material: StudyMaterial; quizzes: Quiz[] | undefined }> = ({ material, quizzes }) => {
+  const { updateStudyMaterial, setStudyMaterialArchived, moveStudyMaterialToTrash, restoreStudyMaterialFromTrash, deleteStudyMaterial, deleteQuizResult } = useUploadedContent();
+  const [isEditing, setIsEditing] = useState(false);
+  const [showQuizHistory, setShowQuizHistory] = useState(false);
   const quizzesTaken = quizzes?.length || 0;
+  const sortedQuizzes = [...(quizzes || [])].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   let lastQuizScore: string | null = null;
-  if (quizzes && quizzesTaken > 0) {
-      const lastQuiz = [...quizzes].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+  if (quizzesTaken > 0) {
+      const lastQuiz = sortedQuizzes[0];
       if (lastQuiz && typeof lastQuiz.score === 'number' && lastQuiz.questions.length > 0) {
         lastQuizScore = ((lastQuiz.score / lastQuiz.questions.length) * 100).toFixed(0);
       }
   }
 
+  const handleDeleteForever = () => {
+    const quizNote = quizzesTaken > 0 ? ` and its ${quizzesTaken} quiz result${quizzesTaken === 1 ? '' : 's'}` : '';
+    if (window.confirm(`Permanently delete "${material.title}"${quizNote}? This cannot be undone.`)) deleteStudyMaterial(material.id);
+  };
+
+  const handleDeleteQuiz = (quiz: Quiz) => {
+    if (window.confirm(`Remove the quiz attempt from ${new Date(quiz.timestamp).toLocaleString()}?`)) deleteQuizResult(quiz.id);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="card material-card">
+        <MaterialMetadataEditor
+          material={material}
+          onSave={updates => { updateStudyMaterial(material.id, updates); setIsEditing(false); }}
+          onCancel={() => setIsEditing(false)}
+        />
+      </div>
+    );
+  }
+
   return (
-    <div className="card material-card">
+    <div className="card material-card" data-trashed={!!material.trashedAt}>
       <div className="material-card-header">
         <div>
-          <p className="material-card-meta">{material.subject || 'General'}</p>
+          <p className="material-card-meta">{material.subject || 'General'}{material.archivedAt && ' · Archived'}</p>
           <h3>{material.title}</h3>
           <div className="material-card-details">
              <span>Topic: <strong>{material.topic || 'N/A'}</strong></span>
@@ -136,10 +403,43 @@ const MaterialCard: React.FC<{ material: StudyMaterial; quizzes: Quiz[] | undefi
              {lastQuizScore !== null && <span>Last Score: <strong>{lastQuizScore}%</strong></span>}
           </div>
         </div>
-        <Link to={`/study/${material.id}`}>
-          <Button variant="secondary">Study Session</Button>
-        </Link>
+        {!material.trashedAt && (
+          <Link to={`/study/${material.id}`}>
+            <Button variant="secondary">Study Session</Button>
+          </Link>
+        )}
+      </div>
+      <div className="material-card-actions">
+        {material.trashedAt ? (
+          <>
+            <Button variant="ghost" onClick={() => restoreStudyMaterialFromTrash(material.id)}>Restore</Button>
+            <Button variant="ghost" onClick={handleDeleteForever}>Delete forever</Button>
+          </>
+        ) : (
+          <>
+            <Button variant="ghost" leftIcon={<PencilSquareIcon />} onClick={() => setIsEditing(true)}>Edit</Button>
+            <Button variant="ghost" onClick={() => setStudyMaterialArchived(material.id, !material.archivedAt)}>{material.archivedAt ? 'Unarchive' : 'Archive'}</Button>
+            <Button variant="ghost" onClick={() => moveStudyMaterialToTrash(material.id)}>Move to trash</Button>
+            {quizzesTaken > 0 && (
+              <Button variant="ghost" onClick={() => setShowQuizHistory(!showQuizHistory)}>{showQuizHistory ? 'Hide quiz history' : 'Quiz history'}</Button>
+            )}
+          </>
+        )}
       </div>
+      {showQuizHistory && !material.trashedAt && (
+        <ul className="material-card-quizzes">
+          {sortedQuizzes.map(quiz => (
+            <li key={quiz.id}>
+              <span>{new Date(quiz.timestamp).toLocaleString()}</span>
+              <span>{typeof quiz.score === 'number' ? `${quiz.score}/${quiz.questions.length}` : 'Not scored'}</span>
+              {quiz.questions.some(question => question.grading?.flaggedForReview) && (
+                <span className="material-card-quiz-flag">{quiz.questions.filter(question => question.grading?.flaggedForReview).length} flagged for review</span>
+              )}
+              <Button variant="ghost" onClick={() => handleDeleteQuiz(quiz)}>Remove</Button>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
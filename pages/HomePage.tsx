@@ -1,16 +1,25 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useUploadedContent } from '../contexts/UploadedContentContext';
-import { UploadedContent } from '../types';
+import { useGenerationJobs } from '../contexts/GenerationJobsContext';
+import { explanationJobRequest } from '../contexts/generationJobRequests';
+import { StudyMaterial, SourceLocation, TranscriptSegment } from '../types';
 import Button from '../components/common/Button';
 import * as geminiService from '../services/geminiService';
+import * as fileExtractionService from '../services/fileExtractionService';
+import * as captionService from '../services/captionService';
+import { AiServiceError, toAiServiceError } from '../services/llm';
 import Alert from '../components/common/Alert';
+import AiErrorAlert from '../components/common/AiErrorAlert';
+import DemoModeNotice from '../components/common/DemoModeNotice';
 import { BrainIcon, LinkIcon, SparklesIcon, UploadIcon, DocumentTextIcon, PencilSquareIcon } from '../components/icons/Icons';
 
 const HomePage: React.FC = () => {
   const [contentType, setContentType] = useState<'text' | 'youtube' | 'file'>('text');
   const [textContent, setTextContent] = useState('');
   const [youtubeUrl, setYoutubeUrl] = useState('');
+  const [captionText, setCaptionText] = useState('');
+  const [captionFileName, setCaptionFileName] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [title, setTitle] = useState('');
   const [subject, setSubject] = useState('');
@@ -18,11 +27,14 @@ const HomePage: React.FC = () => {
   const [difficulty, setDifficulty] = useState<'Easy' | 'Medium' | 'Hard'>('Medium');
 
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | AiServiceError | null>(null);
   const [isSuggestingMeta, setIsSuggestingMeta] = useState(false);
+  // The template version and model settings behind the suggested metadata, recorded on the material like its artifacts'.
+  const [metadataMadeWith, setMetadataMadeWith] = useState<{ templateVersion: string; modelSettings: string } | null>(null);
 
   const navigate = useNavigate();
   const { addContent } = useUploadedContent();
+  const { startJob } = useGenerationJobs();
 
   const handleContentTypeChange = (newType: 'text' | 'youtube' | 'file') => {
     setContentType(newType);
@@ -33,6 +45,8 @@ const HomePage: React.FC = () => {
     let contentToAnalyze = '';
     if (contentType === 'text' && textContent.trim()) {
       contentToAnalyze = textContent;
+    } else if (contentType === 'youtube' && captionText.trim()) {
+      contentToAnalyze = captionService.segmentsToTranscript(captionService.parseCaptions(captionText)) || `Analyze metadata for a youtube video with this URL: ${youtubeUrl}`;
     } else if (contentType === 'youtube' && youtubeUrl.trim()) {
       contentToAnalyze = `Analyze metadata for a youtube video with this URL: ${youtubeUrl}`;
     } else if (contentType === 'file' && selectedFile) {
@@ -45,18 +59,33 @@ const HomePage: React.FC = () => {
     setIsSuggestingMeta(true);
     setError(null);
     try {
+      const madeWith = { templateVersion: geminiService.templateVersionFor('metadata'), modelSettings: geminiService.modelSettingsFor('metadata') };
       const metadata = await geminiService.suggestMetadata(contentToAnalyze);
+      setMetadataMadeWith(madeWith);
       setTitle(metadata.title);
       setSubject(metadata.subject);
       setTopic(metadata.topic);
       setDifficulty(metadata.difficulty);
     } catch (e) {
       console.error("Metadata suggestion failed", e);
-      setError("Failed to suggest metadata. Please try again or fill manually.");
+      const aiError = toAiServiceError(e);
+      setError(new AiServiceError(aiError.kind, `Metadata could not be suggested, so fill it in yourself or try again. ${aiError.message}`, { cause: e }));
     } finally {
       setIsSuggestingMeta(false);
     }
-  }, [textContent, contentType, youtubeUrl, selectedFile]);
+  }, [textContent, contentType, youtubeUrl, captionText, selectedFile]);
+
+  const handleCaptionFileChange = async (file: File | null) => {
+    if (error) setError(null);
+    if (!file) return;
+    try {
+      setCaptionText(await file.text());
+      setCaptionFileName(file.name);
+    } catch (e) {
+      console.error("Failed to read caption file", e);
+      setError(`Could not read "${file.name}".`);
+    }
+  };
 
     const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -64,9 +93,9 @@ const HomePage: React.FC = () => {
     setError(null);
 
     if ((contentType === 'text' && !textContent.trim()) ||
-        (contentType === 'youtube' && !youtubeUrl.trim()) ||
+        (contentType === 'youtube' && (!youtubeUrl.trim() || !captionText.trim())) ||
         (contentType === 'file' && !selectedFile)) {
-      setError(`Please provide the required content.`);
+      setError(contentType === 'youtube' ? `Please provide the video URL and its caption track.` : `Please provide the required content.`);
       setIsLoading(false);
       return;
     }
@@ -76,34 +105,85 @@ const HomePage: React.FC = () => {
     let originalContentValue = textContent;
     let fileNameValue: string | undefined = undefined;
     let fileMimeTypeValue: string | undefined = undefined;
+    let sourceLocations: SourceLocation[] | undefined = undefined;
+    let extractionWarnings: string[] = [];
+    let sourceImageUrl: string | undefined = undefined;
+    let transcriptSegments: TranscriptSegment[] | undefined = undefined;
+    let templateVersions: Record<string, string> = {};
+    let modelSettings: Record<string, string> = {};
 
     try {
       if (contentType === 'youtube') {
-        originalContentValue = youtubeUrl;
-        extractedText = await geminiService.fetchYouTubeTranscript(youtubeUrl);
+        if (!captionService.getYouTubeVideoId(youtubeUrl)) {
+          setError("Please enter a valid YouTube video URL.");
+          return;
+        }
+        transcriptSegments = captionService.parseCaptions(captionText);
+        if (transcriptSegments.length === 0) {
+          setError("No captions were found. Please provide a .vtt, .srt or .sbv caption track for this video.");
+          return;
+        }
+        originalContentValue = youtubeUrl.trim();
+        fileNameValue = captionFileName || undefined;
+        extractedText = captionService.segmentsToTranscript(transcriptSegments);
       } else if (contentType === 'file' && selectedFile) {
         originalContentValue = selectedFile.name;
         fileNameValue = selectedFile.name;
         fileMimeTypeValue = selectedFile.type;
-        extractedText = await geminiService.processFileUploadSimulation(selectedFile);
+        let extraction: fileExtractionService.FileExtractionResult;
+        try {
+          extraction = await fileExtractionService.extractTextFromFile(selectedFile);
+        } catch (extractionError: any) {
+          console.error("Error extracting file text:", extractionError);
+          setError(extractionError instanceof AiServiceError ? extractionError : extractionError.message || `Could not read "${selectedFile.name}".`);
+          return;
+        }
+        if (!extraction.text.trim()) {
+          setError(extraction.warnings[0] || `No text could be extracted from "${selectedFile.name}".`);
+          return;
+        }
+        extractedText = extraction.text;
+        sourceLocations = extraction.sourceLocations;
+        extractionWarnings = extraction.warnings;
+        sourceImageUrl = extraction.sourceImageUrl;
+        templateVersions = { ...extraction.templateVersions };
+        modelSettings = { ...extraction.modelSettings };
       }
 
-      // Auto-generate AI explanation immediately for faster experience
-      const explanation = await geminiService.generateExplanation(extractedText);
-      const finalTitle = title || (extractedText ? (await geminiService.suggestMetadata(extractedText)).title : 'Untitled');
+      let finalTitle = title || 'Untitled';
+      let titleMadeWith = metadataMadeWith;
+      if (!title && extractedText) {
+        titleMadeWith = { templateVersion: geminiService.templateVersionFor('metadata'), modelSettings: geminiService.modelSettingsFor('metadata') };
+        try {
+          finalTitle = (await geminiService.suggestMetadata(extractedText)).title;
+        } catch (suggestionError) {
+          // Nothing is saved; the student can type a title and submit again.
+          const aiError = toAiServiceError(suggestionError);
+          throw new AiServiceError(aiError.kind, `A title could not be suggested, so enter one to continue. ${aiError.message}`, { cause: suggestionError });
+        }
+      }
+      if (titleMadeWith) {
+        templateVersions.metadata = titleMadeWith.templateVersion;
+        modelSettings.metadata = titleMadeWith.modelSettings;
+      }
 
-      const uploadedContent: UploadedContent = {
+      const newMaterial: StudyMaterial = {
         id: newContentId, type: contentType, originalContent: originalContentValue, fileName: fileNameValue,
         fileMimeType: fileMimeTypeValue, extractedText: extractedText, title: finalTitle, subject,
-        topic, difficulty, uploadDate: new Date().toISOString(), aiExplanation: explanation,
+        topic, difficulty, uploadDate: new Date().toISOString(),
+        sourceLocations, extractionWarnings: extractionWarnings.length > 0 ? extractionWarnings : undefined, sourceImageUrl, transcriptSegments,
+        templateVersions: Object.keys(templateVersions).length > 0 ? templateVersions : undefined,
+        modelSettings: Object.keys(modelSettings).length > 0 ? modelSettings : undefined,
       };
 
-      addContent(uploadedContent);
+      addContent(newMaterial);
+      // A background job writes the explanation, so a failure is reported on the study page rather than saved as the explanation.
+      startJob(explanationJobRequest(newContentId, extractedText));
       navigate(`/study/${newContentId}`);
 
     } catch (err) {
       console.error("Error processing content:", err);
-      setError("Failed to process content. Please ensure your API key is configured and try again.");
+      setError(err instanceof AiServiceError ? err : "Failed to process content. Please try again.");
     } finally {
       setIsLoading(false);
     }
@@ -114,7 +194,7 @@ const HomePage: React.FC = () => {
   const isSubmitDisabled = () => {
     if (isLoading || isSuggestingMeta) return true;
     if (contentType === 'text' && !textContent.trim()) return true;
-    if (contentType === 'youtube' && !youtubeUrl.trim()) return true;
+    if (contentType === 'youtube' && (!youtubeUrl.trim() || !captionText.trim())) return true;
     if (contentType === 'file' && !selectedFile) return true;
     return false;
   }
@@ -148,7 +228,8 @@ const HomePage: React.FC = () => {
       <div className="home-form-container">
         <div className="card">
           <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '2rem' }}>
-              {error && <Alert type="error" message={error} />}
+              {typeof error === 'string' && <Alert type="error" message={error} />}
+              {error instanceof AiServiceError && <AiErrorAlert error={error} />}
               
               <div>
                 <h2>
@@ -173,8 +254,19 @@ const HomePage: React.FC = () => {
                     <textarea id="textContent" className="form-textarea" value={textContent} onChange={(e) => { setTextContent(e.target.value); if(error) setError(null);}} rows={8} placeholder="Paste your study content here..." required={contentType === 'text'} />
                   )}
                   {contentType === 'youtube' && (
-                    <div>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
                        <input type="url" id="youtubeUrl" className="form-input" value={youtubeUrl} onChange={(e) => { setYoutubeUrl(e.target.value); if(error) setError(null);}} placeholder="https://www.youtube.com/watch?v=your_video_id" required={contentType === 'youtube'} />
+                       <div>
+                         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+                           <label htmlFor="captionText" className="form-label" style={{ marginBottom: 0 }}>Caption track</label>
+                           <label htmlFor="captionFile" className="btn btn-ghost" style={{ cursor: 'pointer' }}>
+                             <UploadIcon /><span>{captionFileName ? `Loaded ${captionFileName}` : 'Upload .vtt / .srt / .sbv'}</span>
+                           </label>
+                           <input type="file" id="captionFile" style={{ display: 'none' }} accept=".vtt,.srt,.sbv" onChange={(e) => handleCaptionFileChange(e.target.files ? e.target.files[0] : null)} />
+                         </div>
+                         <textarea id="captionText" className="form-textarea" value={captionText} onChange={(e) => { setCaptionText(e.target.value); setCaptionFileName(null); if(error) setError(null);}} rows={6} placeholder={"Paste the video's captions here, or upload the caption file.\n\nWEBVTT\n\n00:00:01.000 --> 00:00:04.000\nWelcome to today's lecture..."} />
+                         <p style={{ margin: '0.5rem 0 0', fontSize: '0.875rem' }}>Captions for your own videos can be downloaded from YouTube Studio. Their timestamps let your notes and chat answers link back to the video.</p>
+                       </div>
                     </div>
                   )}
                   {contentType === 'file' && (
@@ -183,9 +275,9 @@ const HomePage: React.FC = () => {
                           <div>
                               <UploadIcon style={{width: '40px', height: '40px', margin: '0 auto'}} />
                               <p style={{margin: '0.5rem 0 0.25rem'}}><span>Click to upload</span> or drag and drop</p>
-                              <p style={{margin: 0, fontSize: '0.875rem'}}>PDF, PPT, DOC, TXT, or images</p>
+                              <p style={{margin: 0, fontSize: '0.875rem'}}>PDF, PPTX, DOCX, TXT, or images</p>
                           </div>
-                          <input type="file" id="fileUpload" style={{ display: 'none' }} onChange={(e) => { setSelectedFile(e.target.files ? e.target.files[0] : null); if(error) setError(null);}} accept=".pdf,.ppt,.pptx,.doc,.docx,.txt,.jpg,.jpeg,.png" required={contentType === 'file'} />
+                          <input type="file" id="fileUpload" style={{ display: 'none' }} onChange={(e) => { setSelectedFile(e.target.files ? e.target.files[0] : null); if(error) setError(null);}} accept=".pdf,.pptx,.docx,.txt,.jpg,.jpeg,.png" required={contentType === 'file'} />
                       </label>
                       {selectedFile && <p style={{ marginTop: '1rem', textAlign: 'center' }}>Selected: {selectedFile.name} ({Math.round(selectedFile.size / 1024)} KB)</p>}
                     </div>
@@ -198,7 +290,7 @@ const HomePage: React.FC = () => {
                    <h2>
                     2. Describe Your Content
                   </h2>
-                   <Button type="button" variant="secondary" onClick={handleSuggestMetadata} isLoading={isSuggestingMeta} leftIcon={<SparklesIcon />} disabled={isLoading || isSuggestingMeta || ((contentType === 'text' && !textContent.trim()) || (contentType === 'youtube' && !youtubeUrl.trim()) || (contentType === 'file' && !selectedFile))}>
+                   <Button type="button" variant="secondary" onClick={handleSuggestMetadata} isLoading={isSuggestingMeta} leftIcon={<SparklesIcon />} disabled={isLoading || isSuggestingMeta || ((contentType === 'text' && !textContent.trim()) || (contentType === 'youtube' && !youtubeUrl.trim() && !captionText.trim()) || (contentType === 'file' && !selectedFile))}>
                     Suggest with AI
                   </Button>
                 </div>
@@ -231,9 +323,7 @@ const HomePage: React.FC = () => {
                 <Button type="submit" isLoading={isLoading} disabled={isSubmitDisabled()} leftIcon={<BrainIcon/>}>
                   {getButtonText()}
                 </Button>
-                 {!process.env.API_KEY && (
-                   <Alert type="warning" title="API Key Missing" message="The Gemini API key is not configured. AI features will not work." style={{marginTop: '1.5rem'}} />
-                )}
+                 <DemoModeNotice style={{marginTop: '1.5rem'}} />
               </div>
           </form>
         </div>
@@ -1,13 +1,20 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useUploadedContent } from '../contexts/UploadedContentContext';
-import { QuizQuestion, AiGeneratedFeedback, Quiz } from '../types';
+import { QuizQuestion, QuizAnswer, AnswerGrading, AiGeneratedFeedback, Quiz } from '../types';
 import * as geminiService from '../services/geminiService';
+import { AiServiceError, toAiServiceError } from '../services/llm';
+import { CachePolicy } from '../services/responseCacheService';
+import { tagUsage } from '../services/usageService';
+import { outputLanguageOf } from '../services/languageService';
+import { BLANK, isSameAnswer, gradeQuestion, applyGrading, needsAiGrading, quizScore, startingOrder, matchingChoices } from '../services/quizGradingService';
 import Button from '../components/common/Button';
 import LoadingSpinner from '../components/common/LoadingSpinner';
 import Alert from '../components/common/Alert';
+import AiErrorAlert from '../components/common/AiErrorAlert';
+import DemoModeNotice from '../components/common/DemoModeNotice';
 import { DEFAULT_QUIZ_DURATION_SECONDS, DEFAULT_QUIZ_QUESTIONS_count } from '../constants';
-import { ArrowPathIcon, BookOpenIcon, CheckCircleIcon, XCircleIcon } from '../components/icons/Icons';
+import { ArrowPathIcon, BookOpenIcon, CheckCircleIcon, XCircleIcon, ChevronUpIcon, ChevronDownIcon } from '../components/icons/Icons';
 
 const CircularProgress: React.FC<{ percentage: number }> = ({ percentage }) => {
   const sqSize = 150;
@@ -36,80 +43,345 @@ const CircularProgress: React.FC<{ percentage: number }> = ({ percentage }) => {
   );
 };
 
+const QUESTION_HINTS: Partial<Record<QuizQuestion['type'], string>> = {
+  multi_select: 'Select all that apply.',
+  fill_blank: 'Fill in each blank.',
+  matching: 'Match each item with the one that belongs to it.',
+  ordering: 'Put these in the right order.',
+};
+
+const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+const asList = (answer?: QuizAnswer): string[] => (Array.isArray(answer) ? answer : answer ? [answer] : []);
+
+// Sets one entry of a list answer, keeping the others where they are.
+const withEntry = (answer: QuizAnswer | undefined, index: number, value: string, length: number): string[] => {
+  const entries = Array.from({ length }, (_, i) => asList(answer)[i] || '');
+  entries[index] = value;
+  return entries;
+};
+
+const QuestionInput: React.FC<{ question: QuizQuestion; answer?: QuizAnswer; onChange: (answer: QuizAnswer) => void }> = ({ question, answer, onChange }) => {
+  switch (question.type) {
+    case 'mcq':
+    case 'true_false':
+      return (
+        <div className="mcq-options">
+          {(question.type === 'true_false' ? TRUE_FALSE_OPTIONS : question.options || []).map((option, idx) => (
+            <label key={idx} className={`mcq-option ${answer === option ? 'selected' : ''}`}>
+                <input type="radio" name={`question-${question.id}`} value={option} checked={answer === option} onChange={() => onChange(option)} />
+                <span>{option}</span>
+            </label>
+          ))}
+        </div>
+      );
+    case 'multi_select': {
+      const chosen = asList(answer);
+      const toggle = (option: string) => onChange(chosen.includes(option) ? chosen.filter(item => item !== option) : [...chosen, option]);
+      return (
+        <div className="mcq-options">
+          {(question.options || []).map((option, idx) => (
+            <label key={idx} className={`mcq-option ${chosen.includes(option) ? 'selected' : ''}`}>
+                <input type="checkbox" value={option} checked={chosen.includes(option)} onChange={() => toggle(option)} />
+                <span>{option}</span>
+            </label>
+          ))}
+        </div>
+      );
+    }
+    case 'fill_blank': {
+      const parts = question.questionText.split(BLANK);
+      return (
+        <p className="quiz-fill-blank">
+          {parts.map((part, idx) => (
+            <React.Fragment key={idx}>
+              {part}
+              {idx < parts.length - 1 && (
+                <input className="form-input quiz-blank-input" aria-label={`Blank ${idx + 1}`} value={asList(answer)[idx] || ''} onChange={e => onChange(withEntry(answer, idx, e.target.value, parts.length - 1))} />
+              )}
+            </React.Fragment>
+          ))}
+        </p>
+      );
+    }
+    case 'matching': {
+      const pairs = question.pairs || [];
+      const choices = matchingChoices(question);
+      return (
+        <div className="quiz-matching">
+          {pairs.map((pair, idx) => (
+            <React.Fragment key={idx}>
+              <label htmlFor={`match-${question.id}-${idx}`}>{pair.left}</label>
+              <select id={`match-${question.id}-${idx}`} className="form-select" value={asList(answer)[idx] || ''} onChange={e => onChange(withEntry(answer, idx, e.target.value, pairs.length))}>
+                <option value="">Choose...</option>
+                {choices.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+              </select>
+            </React.Fragment>
+          ))}
+        </div>
+      );
+    }
+    case 'ordering': {
+      const isUntouched = asList(answer).length === 0;
+      const order = isUntouched ? startingOrder(question) : asList(answer);
+      const move = (from: number, to: number) => {
+        const next = [...order];
+        [next[from], next[to]] = [next[to], next[from]];
+        onChange(next);
+      };
+      return (
+        <>
+          <ol className="quiz-ordering">
+            {order.map((item, idx) => (
+              <li key={item}>
+                <span>{item}</span>
+                <Button variant="ghost" aria-label={`Move "${item}" up`} onClick={() => move(idx, idx - 1)} disabled={idx === 0} leftIcon={<ChevronUpIcon style={{ width: 16, height: 16 }} />} />
+                <Button variant="ghost" aria-label={`Move "${item}" down`} onClick={() => move(idx, idx + 1)} disabled={idx === order.length - 1} leftIcon={<ChevronDownIcon style={{ width: 16, height: 16 }} />} />
+              </li>
+            ))}
+          </ol>
+          {isUntouched && (
+            <p className="quiz-ordering-hint">
+              Not answered yet: move the items into order, or <Button variant="ghost" onClick={() => onChange(order)}>keep this order</Button>
+            </p>
+          )}
+        </>
+      );
+    }
+    default:
+      return <textarea className="form-textarea" value={typeof answer === 'string' ? answer : ''} onChange={(e) => onChange(e.target.value)} rows={4} placeholder="Type your answer here..." />;
+  }
+};
+
+// One line per blank, pair or position: what was given, and what was expected when that was wrong.
+const AnswerRows: React.FC<{ rows: { label: string; given?: string; expected: string }[] }> = ({ rows }) => (
+  <ul className="quiz-review-rows">
+    {rows.map((row, idx) => {
+      const isRight = isSameAnswer(row.given, row.expected);
+      return (
+        <li key={idx} className={isRight ? 'correct' : 'incorrect'}>
+          {row.label}: <strong>{row.given || 'Not answered'}</strong>
+          {!isRight && <> (correct: <strong>{row.expected}</strong>)</>}
+        </li>
+      );
+    })}
+  </ul>
+);
+
+const AnswerReview: React.FC<{ question: QuizQuestion }> = ({ question }) => {
+  const given = asList(question.userAnswer);
+  const expected = asList(question.correctAnswer);
+  switch (question.type) {
+    case 'multi_select':
+      return (
+        <ul className="quiz-review-rows">
+          {(question.options || []).map(option => {
+            const wasChosen = given.includes(option);
+            const isAnswer = expected.includes(option);
+            if (!wasChosen && !isAnswer) return null;
+            return (
+              <li key={option} className={wasChosen === isAnswer ? 'correct' : 'incorrect'}>
+                <strong>{option}</strong> {wasChosen ? (isAnswer ? '(chosen, correct)' : '(chosen, but not correct)') : '(missed)'}
+              </li>
+            );
+          })}
+        </ul>
+      );
+    case 'fill_blank':
+      return <AnswerRows rows={expected.map((answer, idx) => ({ label: `Blank ${idx + 1}`, given: given[idx], expected: answer }))} />;
+    case 'matching':
+      return <AnswerRows rows={(question.pairs || []).map((pair, idx) => ({ label: pair.left, given: given[idx], expected: pair.right }))} />;
+    case 'ordering':
+      return <AnswerRows rows={expected.map((item, idx) => ({ label: `${idx + 1}`, given: given[idx], expected: item }))} />;
+    default:
+      return (
+        <>
+          <p>Your answer: <strong>{given[0] || "Not answered"}</strong></p>
+          {!question.isCorrect && typeof question.correctAnswer === 'string' && (
+            <p>{question.type === 'short_answer' ? 'Reference answer' : 'Correct answer'}: <strong>{question.correctAnswer}</strong></p>
+          )}
+        </>
+      );
+  }
+};
+
+const CREDIT_CHOICES = [1, 0.75, 0.5, 0.25, 0];
+
+const percent = (credit: number) => `${Math.round(credit * 100)}%`;
+
+// How a short answer was graded, with the student's flag and override.
+const GradingReview: React.FC<{ grading: AnswerGrading; disabled?: boolean; onChange: (grading: AnswerGrading) => void }> = ({ grading, disabled, onChange }) => (
+  <div className="quiz-grading">
+    <p title={[grading.templateVersion && `Prompt template: ${grading.templateVersion}`, grading.modelSettings && `Model: ${grading.modelSettings}`].filter(Boolean).join(' · ') || undefined}>
+      {grading.gradedBy === 'ai' ? 'AI grade' : 'Grade'}: <strong>{percent(grading.credit)}</strong>. {grading.justification}
+    </p>
+    {grading.overrideCredit !== undefined && <p>You set the credit to <strong>{percent(grading.overrideCredit)}</strong>.</p>}
+    {grading.flaggedForReview && <p className="quiz-grading-flag">Flagged for review</p>}
+    <div className="quiz-grading-actions">
+      <Button variant="ghost" disabled={disabled} onClick={() => onChange({ ...grading, flaggedForReview: !grading.flaggedForReview || undefined })}>
+        {grading.flaggedForReview ? 'Remove flag' : 'Flag for review'}
+      </Button>
+      <select className="form-select" aria-label="Credit for this answer" value={grading.overrideCredit ?? ''} disabled={disabled} onChange={e => onChange({ ...grading, overrideCredit: e.target.value === '' ? undefined : Number(e.target.value) })}>
+        <option value="">Credit as graded ({percent(grading.credit)})</option>
+        {CREDIT_CHOICES.map(credit => <option key={credit} value={credit}>Override: {percent(credit)}</option>)}
+      </select>
+    </div>
+  </div>
+);
+
 const QuizPage: React.FC = () => {
   const { contentId } = useParams<{ contentId: string }>();
   const navigate = useNavigate();
-  const { getStudyMaterialById, addQuizResult } = useUploadedContent();
+  const { getStudyMaterialById, addQuizResult, updateQuizResult, isLibraryLoaded } = useUploadedContent();
 
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [userAnswers, setUserAnswers] = useState<Record<string, string>>({});
+  const [userAnswers, setUserAnswers] = useState<Record<string, QuizAnswer>>({});
   const [timeLeft, setTimeLeft] = useState(DEFAULT_QUIZ_DURATION_SECONDS);
   const [quizState, setQuizState] = useState<'loading' | 'taking' | 'submitting' | 'results'>('loading');
   const [score, setScore] = useState(0);
   const [feedback, setFeedback] = useState<AiGeneratedFeedback | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | AiServiceError | null>(null);
+  const [feedbackError, setFeedbackError] = useState<AiServiceError | null>(null);
+  const [droppedQuestionCount, setDroppedQuestionCount] = useState(0);
+  const [loadingProgress, setLoadingProgress] = useState('');
+  const [templateVersion, setTemplateVersion] = useState<string | undefined>();
+  const [modelSettings, setModelSettings] = useState<string | undefined>();
+  const [quizId, setQuizId] = useState<string | null>(null);
+  const [gradingError, setGradingError] = useState<AiServiceError | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
 
   const timerRef = useRef<number | null>(null);
+  const generationRef = useRef<AbortController | null>(null);
   const material = contentId ? getStudyMaterialById(contentId) : null;
+  const outputLanguage = outputLanguageOf(material);
 
-  const loadQuestions = useCallback(async () => {
+  const loadQuestions = useCallback(async (cachePolicy?: CachePolicy) => {
     if (!material?.extractedText) {
       setError("Content not found or empty. Cannot generate quiz."); setQuizState('results'); return;
     }
-    setQuizState('loading'); setError(null);
+    setQuizState('loading'); setError(null); setLoadingProgress(''); setDroppedQuestionCount(0);
+    generationRef.current?.abort();
+    const controller = new AbortController();
+    generationRef.current = controller;
+    if (contentId) tagUsage(controller.signal, { feature: 'quiz', materialId: contentId });
     try {
-      const generatedQuestions = await geminiService.generateQuizQuestions(material.extractedText, DEFAULT_QUIZ_QUESTIONS_count);
-      if (generatedQuestions.length === 0) {
-        setError("Could not generate quiz. Content might be too short or AI service unavailable."); setQuizState('results'); return;
-      }
+      const version = geminiService.templateVersionFor('quiz');
+      const settings = geminiService.modelSettingsFor('quiz');
+      const generatedQuestions = await geminiService.generateQuizQuestions(material.extractedText, DEFAULT_QUIZ_QUESTIONS_count, setLoadingProgress, controller.signal, report => setDroppedQuestionCount(report.dropped.length), { policy: cachePolicy }, outputLanguage);
       setQuestions(generatedQuestions.map(q => ({...q, id: q.id || `q-${Math.random().toString(36).substr(2, 9)}` })));
+      setTemplateVersion(version);
+      setModelSettings(settings);
       setQuizState('taking');
       setTimeLeft(DEFAULT_QUIZ_DURATION_SECONDS);
     } catch (e) {
+      if (controller.signal.aborted) return;
       console.error("Error loading quiz questions:", e);
-      setError("Failed to load quiz. Check connection or API key.");
+      setError(toAiServiceError(e));
       setQuizState('results');
     }
-  }, [material?.extractedText]); 
+  }, [material?.extractedText, contentId, outputLanguage]);
+
+  // Keeps the score and the saved result in step with the graded questions.
+  const commitGradedQuestions = useCallback((graded: QuizQuestion[], savedQuizId: string | null): number => {
+    const newScore = quizScore(graded);
+    setQuestions(graded);
+    setScore(newScore);
+    if (savedQuizId) updateQuizResult(savedQuizId, { questions: graded, score: newScore });
+    return newScore;
+  }, [updateQuizResult]);
+
+  // Has the AI grade the short answers an exact match didn't settle. Answers it couldn't grade keep no credit until
+  // grading is retried.
+  const gradeOpenAnswers = useCallback(async (graded: QuizQuestion[], signal: AbortSignal): Promise<QuizQuestion[]> => {
+    const open = graded.filter(needsAiGrading);
+    if (open.length === 0) return graded;
+    setGradingError(null);
+    try {
+      const version = geminiService.templateVersionFor('grading');
+      const settings = geminiService.modelSettingsFor('grading');
+      const grades = await geminiService.gradeShortAnswers(
+        open.map(q => ({ question: q.questionText, referenceAnswer: String(q.correctAnswer), rubric: q.rubric, answer: String(q.userAnswer) })),
+        signal,
+        outputLanguage
+      );
+      if (grades.some(grade => !grade)) setGradingError(new AiServiceError('invalid-response', 'Some of your answers could not be graded.'));
+      const gradesById = new Map(open.map((q, i) => [q.id, grades[i]]));
+      return graded.map(q => {
+        const grade = gradesById.get(q.id);
+        return grade ? applyGrading(q, { ...grade, gradedBy: 'ai', templateVersion: version, modelSettings: settings }) : q;
+      });
+    } catch (e) {
+      if (!signal.aborted) {
+        console.error("Error grading short answers:", e);
+        setGradingError(toAiServiceError(e));
+      }
+      return graded;
+    }
+  }, [outputLanguage]);
 
   const handleSubmitQuiz = useCallback(async () => {
     if (quizState === 'submitting' || quizState === 'results') return;
     setQuizState('submitting');
     if (timerRef.current) clearTimeout(timerRef.current);
 
-    let calculatedScore = 0;
-    const answeredQuestions = questions.map(q => {
-      const userAnswer = userAnswers[q.id];
-      const userAnswerProcessed = userAnswer?.trim().toLowerCase();
-      let isCorrect = false;
-      if (typeof q.correctAnswer === 'string') isCorrect = userAnswerProcessed === q.correctAnswer.trim().toLowerCase();
-      if (isCorrect) calculatedScore++;
-      return { ...q, userAnswer, isCorrect };
-    });
+    const answeredQuestions = questions.map(q => gradeQuestion(q, userAnswers[q.id]));
     setQuestions(answeredQuestions);
-    setScore(calculatedScore);
+    setScore(quizScore(answeredQuestions));
 
-    if (contentId) {
-      const quizResult: Quiz = { id: `quiz_${Date.now()}`, contentId, questions: answeredQuestions, score: calculatedScore, timestamp: new Date().toISOString(), durationSeconds: DEFAULT_QUIZ_DURATION_SECONDS - timeLeft };
+    // Saved straight away, then updated once the short answers are graded.
+    const savedQuizId = contentId ? `quiz_${Date.now()}` : null;
+    if (contentId && savedQuizId) {
+      const quizResult: Quiz = { id: savedQuizId, contentId, questions: answeredQuestions, score: quizScore(answeredQuestions), timestamp: new Date().toISOString(), durationSeconds: DEFAULT_QUIZ_DURATION_SECONDS - timeLeft, templateVersion, modelSettings };
       addQuizResult(contentId, quizResult);
     }
+    setQuizId(savedQuizId);
     
+    const controller = new AbortController();
+    generationRef.current = controller;
+    if (contentId) tagUsage(controller.signal, { feature: 'quiz', materialId: contentId });
+    const gradedQuestions = await gradeOpenAnswers(answeredQuestions, controller.signal);
+    if (controller.signal.aborted) return;
+    const calculatedScore = gradedQuestions === answeredQuestions ? quizScore(answeredQuestions) : commitGradedQuestions(gradedQuestions, savedQuizId);
+
+    setFeedbackError(null);
     try {
-      const generatedFeedback = await geminiService.generateFeedbackOnQuiz(calculatedScore, questions.length, material?.extractedText);
+      const generatedFeedback = await geminiService.generateFeedbackOnQuiz(calculatedScore, questions.length, material?.extractedText, controller.signal, outputLanguage);
       setFeedback(generatedFeedback);
     } catch (e) {
+      if (controller.signal.aborted) return;
       console.error("Error generating feedback:", e);
-      setFeedback({ text: "Could not generate AI feedback." });
+      setFeedbackError(toAiServiceError(e));
     }
     
     setQuizState('results');
-  }, [questions, userAnswers, timeLeft, contentId, addQuizResult, material?.extractedText, quizState]);
+  }, [questions, userAnswers, timeLeft, contentId, addQuizResult, material?.extractedText, quizState, templateVersion, modelSettings, gradeOpenAnswers, commitGradedQuestions, outputLanguage]);
+
+  const handleRetryGrading = async () => {
+    const controller = new AbortController();
+    generationRef.current = controller;
+    if (contentId) tagUsage(controller.signal, { feature: 'quiz', materialId: contentId });
+    setIsGrading(true);
+    const gradedQuestions = await gradeOpenAnswers(questions, controller.signal);
+    if (controller.signal.aborted) return;
+    setIsGrading(false);
+    commitGradedQuestions(gradedQuestions, quizId);
+  };
+
+  const handleGradingChange = (questionId: string, grading: AnswerGrading) =>
+    commitGradedQuestions(questions.map(q => (q.id === questionId ? applyGrading(q, grading) : q)), quizId);
   
   useEffect(() => {
-    if(!process.env.API_KEY) { setError("API Key not configured."); setQuizState('results'); return; }
+    if (!isLibraryLoaded) return;
     loadQuestions();
-  }, [loadQuestions]);
+  }, [loadQuestions, isLibraryLoaded]);
+
+  useEffect(() => () => generationRef.current?.abort(), []);
+
+  const handleCancelGeneration = () => {
+    generationRef.current?.abort();
+    navigate(`/study/${contentId}`);
+  };
 
   useEffect(() => {
     if (quizState === 'taking' && timeLeft > 0) {
@@ -118,18 +390,26 @@ const QuizPage: React.FC = () => {
     return () => { if (timerRef.current) clearTimeout(timerRef.current); };
   }, [timeLeft, quizState, handleSubmitQuiz]);
 
-  const handleAnswerChange = (questionId: string, answer: string) => setUserAnswers(prev => ({ ...prev, [questionId]: answer }));
+  const handleAnswerChange = (questionId: string, answer: QuizAnswer) => setUserAnswers(prev => ({ ...prev, [questionId]: answer }));
 
   const currentQ = questions[currentQuestionIndex];
 
-  if (quizState === 'loading') return <LoadingSpinner text="Generating Your Quiz..." />;
+  if (quizState === 'loading') {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '1rem' }}>
+        <LoadingSpinner text={loadingProgress || "Generating Your Quiz..."} />
+        <Button variant="secondary" onClick={handleCancelGeneration}>Cancel</Button>
+      </div>
+    );
+  }
   
   if (quizState === 'results') {
     const percentage = questions.length > 0 ? (score / questions.length) * 100 : 0;
     return (
       <div className="quiz-results-container container">
         <h2>Quiz Complete!</h2>
-        {error && <Alert type="error" message={error} />}
+        {typeof error === 'string' && <Alert type="error" message={error} />}
+        {error instanceof AiServiceError && <AiErrorAlert error={error} onRetry={() => loadQuestions()} />}
         
         <div className="card quiz-results-score-card">
            <CircularProgress percentage={percentage} />
@@ -139,26 +419,38 @@ const QuizPage: React.FC = () => {
         {feedback && (
           <div className="card" style={{textAlign: 'left', marginBottom: '2rem'}}>
             <h3>AI Feedback</h3>
-            <p>{feedback.text}</p>
+            <p dir="auto">{feedback.text}</p>
           </div>
         )}
+        {feedbackError && <AiErrorAlert error={feedbackError} style={{ marginBottom: '2rem' }} />}
+        {isGrading ? (
+          <LoadingSpinner text="Grading your answers..." />
+        ) : gradingError && (
+          <AiErrorAlert error={gradingError} onRetry={handleRetryGrading} style={{ marginBottom: '2rem' }} />
+        )}
 
         <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
             <h3>Review Your Answers:</h3>
             {questions.map((q, idx) => (
-                <div key={q.id} className={`quiz-review-item ${q.isCorrect ? 'correct' : 'incorrect'}`}>
-                    <p><strong>Q{idx+1}: {q.questionText}</strong></p>
+                <div key={q.id} dir="auto" className={`quiz-review-item ${q.isCorrect ? 'correct' : q.credit ? 'partial' : 'incorrect'}`}>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                      {q.isCorrect ? <CheckCircleIcon style={{ width: 20, height: 20, color: 'var(--color-success)' }} /> : <XCircleIcon style={{ width: 20, height: 20, color: 'var(--color-error)' }} />}
-                      <p>Your answer: <strong>{q.userAnswer || "Not answered"}</strong></p>
+                      {q.isCorrect ? <CheckCircleIcon style={{ width: 20, height: 20, color: 'var(--color-success)', flexShrink: 0 }} /> : <XCircleIcon style={{ width: 20, height: 20, color: q.credit ? 'var(--color-warning)' : 'var(--color-error)', flexShrink: 0 }} />}
+                      <p><strong>Q{idx+1}: {q.questionText}</strong></p>
                     </div>
-                    {!q.isCorrect && typeof q.correctAnswer === 'string' && <p>Correct answer: <strong>{q.correctAnswer}</strong></p>}
+                    {!q.isCorrect && !!q.credit && <p>Partial credit: <strong>{Math.round(q.credit * 100)}%</strong></p>}
+                    <AnswerReview question={q} />
+                    {q.type === 'short_answer' && (
+                      q.grading
+                        ? <GradingReview grading={q.grading} disabled={isGrading} onChange={grading => handleGradingChange(q.id, grading)} />
+                        : <p>Not graded yet.</p>
+                    )}
                 </div>
             ))}
         </div>
         <div style={{ display: 'flex', justifyContent: 'center', gap: '1rem', marginTop: '2rem' }}>
           <Button variant="secondary" onClick={() => navigate(`/study/${contentId}`)} leftIcon={<BookOpenIcon />}>Back to Study</Button>
-          <Button onClick={loadQuestions} leftIcon={<ArrowPathIcon />}>Try Again</Button>
+          <Button variant="secondary" onClick={() => loadQuestions()} leftIcon={<ArrowPathIcon />}>Try Again</Button>
+          <Button onClick={() => loadQuestions('refresh')} leftIcon={<ArrowPathIcon />}>New Questions</Button>
         </div>
       </div>
     );
@@ -183,22 +475,16 @@ const QuizPage: React.FC = () => {
             <div className="quiz-progress-bar-inner" style={{width: `${((currentQuestionIndex + 1) / questions.length) * 100}%`}}></div>
           </div>
 
+          {droppedQuestionCount > 0 && currentQuestionIndex === 0 && (
+            <Alert type="info" message={`${droppedQuestionCount} of the generated questions were malformed and could not be fixed, so this quiz has ${questions.length} instead of ${questions.length + droppedQuestionCount}.`} style={{ marginBottom: '1rem' }} />
+          )}
+
           {currentQ && (
-            <div key={currentQ.id}>
-              <h3>{currentQ.questionText}</h3>
-              {currentQ.type === 'mcq' && currentQ.options && (
-                <div className="mcq-options">
-                  {currentQ.options.map((option, idx) => (
-                    <label key={idx} className={`mcq-option ${userAnswers[currentQ.id] === option ? 'selected' : ''}`}>
-                        <input type="radio" name={`question-${currentQ.id}`} value={option} checked={userAnswers[currentQ.id] === option} onChange={() => handleAnswerChange(currentQ.id, option)} />
-                        <span>{option}</span>
-                    </label>
-                  ))}
-                </div>
-              )}
-              {currentQ.type === 'short_answer' && (
-                <textarea className="form-textarea" value={userAnswers[currentQ.id] || ''} onChange={(e) => handleAnswerChange(currentQ.id, e.target.value)} rows={4} placeholder="Type your answer here..." />
-              )}
+            <div key={currentQ.id} dir="auto">
+              {/* A fill-in-the-blank question's text is shown with its blanks as inputs instead */}
+              {currentQ.type !== 'fill_blank' && <h3>{currentQ.questionText}</h3>}
+              {QUESTION_HINTS[currentQ.type] && <p className="quiz-question-hint">{QUESTION_HINTS[currentQ.type]}</p>}
+              <QuestionInput question={currentQ} answer={userAnswers[currentQ.id]} onChange={answer => handleAnswerChange(currentQ.id, answer)} />
             </div>
           )}
 
@@ -211,7 +497,7 @@ const QuizPage: React.FC = () => {
             )}
           </footer>
       </div>
-       {!process.env.API_KEY && <Alert type="warning" title="API Key Missing" message="The Gemini API key is not configured. Quiz features may not work correctly." />}
+       <DemoModeNotice />
     </div>
   );
 };
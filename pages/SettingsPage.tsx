@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import Button from '../components/common/Button';
+import Alert from '../components/common/Alert';
+import { ResolvedPromptTemplate, listPromptTemplates, validatePromptTemplate, savePromptTemplate, resetPromptTemplate } from '../services/promptTemplateService';
+import { ModelTaskInfo, EffectiveModelSettings, MODEL_TASKS, getModelSettings, getDefaultModel, validateModelSettings, saveModelSettings, resetModelSettings } from '../services/modelSettingsService';
+import { ModelParameters } from '../services/llm';
+import { getGlobalOutputLanguage, saveGlobalOutputLanguage } from '../services/languageService';
+import { OUTPUT_LANGUAGES } from '../constants';
+
+const SettingsPage: React.FC = () => {
+  const [templates, setTemplates] = useState(listPromptTemplates);
+  const [outputLanguage, setOutputLanguage] = useState(getGlobalOutputLanguage);
+
+  const handleOutputLanguageChange = (code: string) => {
+    saveGlobalOutputLanguage(code);
+    setOutputLanguage(code);
+  };
+
+  const replaceTemplate = (updated: ResolvedPromptTemplate) =>
+    setTemplates(current => current.map(template => (template.id === updated.id ? updated : template)));
+
+  return (
+    <div>
+      <header style={{ marginBottom: '2rem' }}>
+        <h1>Settings</h1>
+        <p>Adjust how Ameena AI works for you.</p>
+      </header>
+
+      <section style={{ marginBottom: '2rem' }}>
+        <h2>Output Language</h2>
+        <p>
+          The language the AI writes explanations, notes, quizzes, slides and chat answers in. A material can override it
+          from its details editor. Content already generated keeps its language until you regenerate it.
+        </p>
+        <div className="card" style={{ maxWidth: '24rem' }}>
+          <label className="form-label" htmlFor="output-language">Language</label>
+          <select id="output-language" className="form-select" value={outputLanguage} onChange={e => handleOutputLanguageChange(e.target.value)}>
+            {OUTPUT_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+          </select>
+        </div>
+      </section>
+
+      <section style={{ marginBottom: '2rem' }}>
+        <h2>AI Models</h2>
+        <p>
+          The model and generation settings used for each task. Blank fields use the defaults shown. A model name has to be
+          one your AI provider offers.
+        </p>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          {MODEL_TASKS.map(task => <ModelSettingsEditor key={task.id} task={task} />)}
+        </div>
+      </section>
+
+      <section>
+        <h2>Prompt Templates</h2>
+        <p>
+          These are the instructions sent to the AI for each feature. Placeholders such as {'{{content}}'} are filled in when a prompt is sent.
+          Every saved edit gets a new version, which is recorded on what it generates and keeps earlier cached answers from being reused.
+        </p>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          {templates.map(template => (
+            <PromptTemplateEditor key={template.id} template={template} onChange={replaceTemplate} />
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+const PromptTemplateEditor: React.FC<{ template: ResolvedPromptTemplate; onChange: (template: ResolvedPromptTemplate) => void }> = ({ template, onChange }) => {
+  const [draft, setDraft] = useState(template.text);
+  const [isEditing, setIsEditing] = useState(false);
+  const errors = isEditing ? validatePromptTemplate(template.id, draft) : [];
+  const isDirty = draft !== template.text;
+
+  const handleSave = () => {
+    const saved = savePromptTemplate(template.id, draft);
+    setDraft(saved.text);
+    setIsEditing(false);
+    onChange(saved);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(`Reset "${template.name}" to the built-in template? Your edits will be lost.`)) return;
+    const reset = resetPromptTemplate(template.id);
+    setDraft(reset.text);
+    setIsEditing(false);
+    onChange(reset);
+  };
+
+  const handleCancel = () => {
+    setDraft(template.text);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="card prompt-template-card">
+      <div className="prompt-template-header">
+        <h3>{template.name}</h3>
+        <span className={`prompt-template-version${template.isCustom ? ' is-custom' : ''}`}>{template.version}</span>
+      </div>
+      <p>{template.description}</p>
+      <p className="prompt-template-variables">
+        Placeholders: {template.variables.length > 0 ? template.variables.map(name => (
+          <code key={name}>{`{{${name}}}`}{template.required.includes(name) ? ' (required)' : ''}</code>
+        )) : 'none'}
+      </p>
+      {template.updatedAt && <p className="prompt-template-variables">Edited {new Date(template.updatedAt).toLocaleString()}</p>}
+
+      {isEditing ? (
+        <>
+          <label className="form-label" htmlFor={`prompt-template-${template.id}`}>Template</label>
+          <textarea id={`prompt-template-${template.id}`} className="form-textarea prompt-template-text" value={draft} onChange={e => setDraft(e.target.value)} />
+          {errors.length > 0 && <Alert type="error" title="This template can't be saved" message={errors.join(' ')} style={{ marginTop: '0.5rem' }} />}
+          <div className="prompt-template-actions">
+            <Button onClick={handleSave} disabled={!isDirty || errors.length > 0}>Save</Button>
+            <Button variant="ghost" onClick={handleCancel}>Cancel</Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <pre className="prompt-template-preview">{template.text}</pre>
+          <div className="prompt-template-actions">
+            <Button variant="secondary" onClick={() => setIsEditing(true)}>Edit</Button>
+            {template.isCustom && <Button variant="ghost" onClick={handleReset}>Reset to default</Button>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Form fields are kept as text so a half-typed number isn't lost; blank means "use the default".
+type ModelSettingsDraft = Record<keyof ModelParameters, string>;
+
+const NUMBER_FIELDS: { key: Exclude<keyof ModelParameters, 'model'>; label: string; step: string }[] = [
+  { key: 'temperature', label: 'Temperature', step: '0.1' },
+  { key: 'topP', label: 'Top-p', step: '0.05' },
+  { key: 'topK', label: 'Top-k', step: '1' },
+];
+
+const toDraft = (settings: EffectiveModelSettings): ModelSettingsDraft => {
+  const valueOf = (key: keyof ModelParameters) => (settings.overridden.includes(key) ? String(settings[key]) : '');
+  return { model: valueOf('model'), temperature: valueOf('temperature'), topP: valueOf('topP'), topK: valueOf('topK') };
+};
+
+const fromDraft = (draft: ModelSettingsDraft): ModelParameters => {
+  const numberOf = (text: string) => (text.trim() === '' ? undefined : Number(text));
+  return { model: draft.model.trim() || undefined, temperature: numberOf(draft.temperature), topP: numberOf(draft.topP), topK: numberOf(draft.topK) };
+};
+
+const ModelSettingsEditor: React.FC<{ task: ModelTaskInfo }> = ({ task }) => {
+  const [settings, setSettings] = useState(() => getModelSettings(task.id));
+  const [draft, setDraft] = useState(() => toDraft(settings));
+  const [isEditing, setIsEditing] = useState(false);
+  const errors = isEditing ? validateModelSettings(task.id, fromDraft(draft)) : [];
+  const isImageTask = task.output === 'image';
+
+  // What each field resolves to: the user's value, or the default it falls back to.
+  const effective = (key: keyof ModelParameters) => {
+    const value = settings[key];
+    const shown = value === undefined ? 'provider default' : String(value);
+    return settings.overridden.includes(key) ? shown : `${shown} (default)`;
+  };
+
+  const handleSave = () => {
+    const saved = saveModelSettings(task.id, fromDraft(draft));
+    setSettings(saved);
+    setDraft(toDraft(saved));
+    setIsEditing(false);
+  };
+
+  const handleReset = () => {
+    const reset = resetModelSettings(task.id);
+    setSettings(reset);
+    setDraft(toDraft(reset));
+    setIsEditing(false);
+  };
+
+  const handleCancel = () => {
+    setDraft(toDraft(settings));
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="card model-settings-card">
+      <div className="prompt-template-header">
+        <h3>{task.name}</h3>
+      </div>
+      <p>{task.description}</p>
+      <dl className="model-settings-effective">
+        <dt>Model</dt><dd>{settings.model ? effective('model') : 'none (this provider has no image model)'}</dd>
+        {!isImageTask && NUMBER_FIELDS.map(field => (
+          <React.Fragment key={field.key}><dt>{field.label}</dt><dd>{effective(field.key)}</dd></React.Fragment>
+        ))}
+      </dl>
+
+      {isEditing ? (
+        <>
+          <div className="model-settings-form">
+            <div>
+              <label className="form-label" htmlFor={`model-${task.id}`}>Model</label>
+              <input id={`model-${task.id}`} className="form-input" value={draft.model} placeholder={getDefaultModel(task.id) || ''} onChange={e => setDraft({ ...draft, model: e.target.value })} />
+            </div>
+            {!isImageTask && NUMBER_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="form-label" htmlFor={`${field.key}-${task.id}`}>{field.label}</label>
+                <input id={`${field.key}-${task.id}`} className="form-input" type="number" step={field.step} min="0" value={draft[field.key]} placeholder="Default" onChange={e => setDraft({ ...draft, [field.key]: e.target.value })} />
+              </div>
+            ))}
+          </div>
+          {errors.length > 0 && <Alert type="error" title="These settings can't be saved" message={errors.join(' ')} style={{ marginTop: '0.5rem' }} />}
+          <div className="prompt-template-actions">
+            <Button onClick={handleSave} disabled={errors.length > 0}>Save</Button>
+            <Button variant="ghost" onClick={handleCancel}>Cancel</Button>
+          </div>
+        </>
+      ) : (
+        <div className="prompt-template-actions">
+          <Button variant="secondary" onClick={() => setIsEditing(true)}>Edit</Button>
+          {settings.overridden.length > 0 && <Button variant="ghost" onClick={handleReset}>Reset to defaults</Button>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -1,29 +1,48 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useUploadedContent } from '../contexts/UploadedContentContext';
-import { StudyMaterial, NoteLength, ChatMessage, PresentationContent, VideoScene, SlideContent } from '../types';
+import { useGenerationJobs, isJobActive, GenerationJob } from '../contexts/GenerationJobsContext';
+import { explanationJobRequest } from '../contexts/generationJobRequests';
+import { StudyMaterial, NoteLength, ChatMessage, PresentationContent, VideoScene, SlideContent, SourceLocation, PassageCitation } from '../types';
 import * as geminiService from '../services/geminiService';
+import * as retrievalService from '../services/retrievalService';
+import { CachePolicy } from '../services/responseCacheService';
+import { renderPromptTemplate } from '../services/promptTemplateService';
+import { getModelSettings, describeModelSettings } from '../services/modelSettingsService';
+import { outputLanguageOf, languageName, textDirection, voicesForLanguage } from '../services/languageService';
+import { OUTPUT_LANGUAGES } from '../constants';
+import { resolveImageDataUrl } from '../services/storageService';
+import { tagUsage, checkBudget, formatUsd } from '../services/usageService';
+import { getLlmProvider, AiServiceError, toAiServiceError } from '../services/llm';
 import Button from '../components/common/Button';
 import LoadingSpinner from '../components/common/LoadingSpinner';
 import Alert from '../components/common/Alert';
+import AiErrorAlert from '../components/common/AiErrorAlert';
 import PptxGenJS from 'pptxgenjs';
 import ErrorBoundary from '../components/common/ErrorBoundary';
 import MermaidDiagram from '../components/common/MermaidDiagram';
-import { AmeenaLogoIcon, UserIcon, BookOpenIcon, ChevronDownIcon, ClipboardListIcon, DownloadIcon, GlobeAltIcon, LightBulbIcon, PhotoIcon, PlayIcon, PauseIcon, ChevronLeftIcon, ChevronRightIcon, PresentationChartIcon, Squares2X2Icon, SparklesIcon } from '../components/icons/Icons';
+import TimestampedText, { linkifyTimestamps } from '../components/common/TimestampedText';
+import StoredImage from '../components/common/StoredImage';
+import MaterialMetadataEditor from '../components/common/MaterialMetadataEditor';
+import { AmeenaLogoIcon, UserIcon, BookOpenIcon, ChevronDownIcon, ClipboardListIcon, DownloadIcon, GlobeAltIcon, LightBulbIcon, PhotoIcon, PlayIcon, PauseIcon, ChevronLeftIcon, ChevronRightIcon, PresentationChartIcon, Squares2X2Icon, SparklesIcon, PencilSquareIcon } from '../components/icons/Icons';
 
 interface CollapsibleCardProps {
   title: string;
   icon: React.ComponentType<React.SVGProps<SVGSVGElement>>;
   children: React.ReactNode;
   defaultOpen?: boolean;
+  isOpen?: boolean; // Makes the card controlled, e.g. so a citation can open the source view
+  onToggle?: (isOpen: boolean) => void;
 }
 
-const CollapsibleCard: React.FC<CollapsibleCardProps> = ({ title, icon: Icon, children, defaultOpen = false }) => {
-  const [isOpen, setIsOpen] = useState(defaultOpen);
+const CollapsibleCard: React.FC<CollapsibleCardProps> = ({ title, icon: Icon, children, defaultOpen = false, isOpen: controlledIsOpen, onToggle }) => {
+  const [uncontrolledIsOpen, setUncontrolledIsOpen] = useState(defaultOpen);
+  const isOpen = controlledIsOpen ?? uncontrolledIsOpen;
+  const toggle = () => (onToggle ? onToggle(!isOpen) : setUncontrolledIsOpen(!isOpen));
 
   return (
     <div className="collapsible-card" data-open={isOpen}>
-      <header className="collapsible-card-header" onClick={() => setIsOpen(!isOpen)}>
+      <header className="collapsible-card-header" onClick={toggle}>
         <div className="collapsible-card-title">
             <Icon style={{ width: 20, height: 20 }} />
             <h2>{title}</h2>
@@ -40,7 +59,7 @@ const CollapsibleCard: React.FC<CollapsibleCardProps> = ({ title, icon: Icon, ch
 };
 
 
-const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthesisVoice | null }> = ({ scenes, selectedVoice }) => {
+const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthesisVoice | null, language: string }> = ({ scenes, selectedVoice, language }) => {
     const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
     const [isPlaying, setIsPlaying] = useState(false);
     const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
@@ -57,6 +76,7 @@ const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthes
         if (!currentScene) return;
         window.speechSynthesis.cancel();
         const utterance = new SpeechSynthesisUtterance(currentScene.script);
+        utterance.lang = language; // Lets the browser pick a fitting voice when none is selected
         if (selectedVoice) utterance.voice = selectedVoice;
         utterance.rate = 1.0;
         utterance.onend = () => {
@@ -70,6 +90,7 @@ const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthes
                     setTimeout(() => {
                         window.speechSynthesis.cancel();
                         const nextUtter = new SpeechSynthesisUtterance(scenes[next].script);
+                        nextUtter.lang = language;
                         if (selectedVoice) nextUtter.voice = selectedVoice;
                         nextUtter.rate = 1.0;
                         nextUtter.onend = () => setIsPlaying(false);
@@ -83,7 +104,7 @@ const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthes
         };
         utteranceRef.current = utterance;
         window.speechSynthesis.speak(utterance);
-    }, [currentScene, scenes, selectedVoice]);
+    }, [currentScene, scenes, selectedVoice, language]);
 
     const handlePlayPause = () => {
         if (!currentScene) return;
@@ -102,7 +123,7 @@ const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthes
         <div>
             <div className="video-player">
                 {currentScene.imageUrl ? (
-                    <img src={currentScene.imageUrl} alt={currentScene.imagePrompt} />
+                    <StoredImage src={currentScene.imageUrl} alt={currentScene.imagePrompt} />
                 ) : (
                     <div style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'white' }}>
                         <PhotoIcon style={{ width: 48, height: 48 }} />
@@ -142,7 +163,7 @@ const PresentationViewer: React.FC<{ presentation: PresentationContent }> = ({ p
                 </div>
                 <div className="presentation-slide-image">
                     {currentSlide.imageUrl ? (
-                       <img src={currentSlide.imageUrl} alt={currentSlide.imagePrompt} />
+                       <StoredImage src={currentSlide.imageUrl} alt={currentSlide.imagePrompt} />
                     ) : (
                        <div style={{textAlign: 'center'}}>
                             <PhotoIcon style={{ width: 48, height: 48, margin: '0 auto' }} />
@@ -160,76 +181,215 @@ const PresentationViewer: React.FC<{ presentation: PresentationContent }> = ({ p
     );
 };
 
+interface SourceHighlight {
+    startOffset: number;
+    endOffset: number;
+}
+
+const SourceTextView: React.FC<{ text: string; sourceLocations?: SourceLocation[]; videoUrl?: string; highlight?: SourceHighlight | null }> = ({ text, sourceLocations, videoUrl, highlight }) => {
+    const highlightRef = useRef<HTMLElement>(null);
+
+    useEffect(() => {
+        highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [highlight]);
+
+    const renderRange = (start: number, end: number): React.ReactNode[] => {
+        if (!highlight || highlight.endOffset <= start || highlight.startOffset >= end) {
+            return linkifyTimestamps(text.slice(start, end), videoUrl, `${start}`);
+        }
+        const markStart = Math.max(start, highlight.startOffset);
+        const markEnd = Math.min(end, highlight.endOffset);
+        return [
+            ...linkifyTimestamps(text.slice(start, markStart), videoUrl, `${start}`),
+            <mark key="highlight" ref={markStart === highlight.startOffset ? highlightRef : undefined} className="source-highlight">
+                {linkifyTimestamps(text.slice(markStart, markEnd), videoUrl, `${markStart}`)}
+            </mark>,
+            ...linkifyTimestamps(text.slice(markEnd, end), videoUrl, `${markEnd}`),
+        ];
+    };
+
+    if (!sourceLocations || sourceLocations.length === 0) {
+        return <p style={{whiteSpace: 'pre-wrap'}}>{renderRange(0, text.length)}</p>;
+    }
+    return (
+        <div className="source-text-view">
+            {sourceLocations.map(location => (
+                <section key={`${location.kind}-${location.index}`} id={`source-${location.kind}-${location.index}`} className="source-text-section">
+                    <h4 className="source-text-label">{location.kind === 'slide' ? 'Slide' : 'Page'} {location.index}</h4>
+                    <p style={{whiteSpace: 'pre-wrap'}}>{renderRange(location.startOffset, location.endOffset)}</p>
+                </section>
+            ))}
+        </div>
+    );
+};
+
+const CITATION_MARKER_REGEX = /\[(\d+)\]/g;
+
+const ChatMessageText: React.FC<{ message: ChatMessage; videoUrl?: string; onCitationClick: (citation: PassageCitation) => void }> = ({ message, videoUrl, onCitationClick }) => {
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    for (const match of message.text.matchAll(CITATION_MARKER_REGEX)) {
+        const citation = message.citations?.find(c => c.marker === Number(match[1]));
+        if (!citation) continue;
+        const index = match.index ?? 0;
+        parts.push(...linkifyTimestamps(message.text.slice(lastIndex, index), videoUrl, `${lastIndex}`));
+        parts.push(
+            <button key={`citation-${index}`} type="button" className="citation-marker" title={`${citation.label}: ${citation.excerpt}`} onClick={() => onCitationClick(citation)}>
+                {citation.marker}
+            </button>
+        );
+        lastIndex = index + match[0].length;
+    }
+    parts.push(...linkifyTimestamps(message.text.slice(lastIndex), videoUrl, `${lastIndex}`));
+    return <div style={{ whiteSpace: 'pre-wrap' }}>{parts}</div>;
+};
+
+
+const jobProgressText = (job?: GenerationJob) => job?.progress || (job?.status === 'queued' ? 'Waiting for other generations...' : 'Generating...');
+const wasServedFromCache = (job?: GenerationJob) => job?.status === 'succeeded' && !!job.cached;
+
+// Shown when a result came from the response cache rather than a fresh model call.
+const CachedNotice: React.FC<{ onRefresh: () => void }> = ({ onRefresh }) => (
+    <div className="cached-notice">
+        <span className="cached-badge">Cached</span>
+        <span>Reused from an earlier generation of the same content.</span>
+        <Button variant="ghost" onClick={onRefresh}>Generate fresh</Button>
+    </div>
+);
+
+// Which prompt template versions and model settings produced an artifact, so results can be compared after either changes.
+const GenerationInfoCaption: React.FC<{ material: StudyMaterial; artifact: string }> = ({ material, artifact }) => {
+    const templateVersion = material.templateVersions?.[artifact];
+    const modelSettings = material.modelSettings?.[artifact];
+    if (!templateVersion && !modelSettings) return null;
+    return (
+        <p className="generation-info">
+            {[templateVersion && `Prompt template: ${templateVersion}`, modelSettings && `Model: ${modelSettings}`].filter(Boolean).join(' · ')}
+        </p>
+    );
+};
 
 export const StudyPage: React.FC = () => {
     const { contentId } = useParams<{ contentId: string }>();
     const navigate = useNavigate();
-    const { getStudyMaterialById, updateStudyMaterial } = useUploadedContent();
+    const { studyMaterials, addContent, getStudyMaterialById, updateStudyMaterial, isLibraryLoaded, setStudyMaterialArchived, moveStudyMaterialToTrash, restoreStudyMaterialFromTrash } = useUploadedContent();
+    const [isEditingDetails, setIsEditingDetails] = useState(false);
     const [material, setMaterial] = useState<StudyMaterial | null>(null);
 
-    const [isLoading, setIsLoading] = useState<Record<string, boolean>>({});
-    const [error, setError] = useState<Record<string, string | null>>({});
+    const { startJob, cancelJob, retryJob, getJob } = useGenerationJobs();
+    const [streamingChatText, setStreamingChatText] = useState('');
+    const [chatError, setChatError] = useState<{ error: AiServiceError; text: string } | null>(null);
+    const chatControllerRef = useRef<AbortController | null>(null);
 
     const [chatInput, setChatInput] = useState('');
     const [isAwaitingChatResponse, setIsAwaitingChatResponse] = useState(false);
     const [useGoogleSearch, setUseGoogleSearch] = useState(false);
+    const [isSourceOpen, setIsSourceOpen] = useState(false);
+    const [sourceHighlight, setSourceHighlight] = useState<SourceHighlight | null>(null);
     const chatContainerRef = useRef<HTMLDivElement>(null);
     
     const [selectedNoteLength, setSelectedNoteLength] = useState<NoteLength>(NoteLength.MEDIUM);
 
-    const [videoGenerationProgress, setVideoGenerationProgress] = useState('');
     const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
     const [selectedVoice, setSelectedVoice] = useState<SpeechSynthesisVoice | null>(null);
+    const [translationLanguage, setTranslationLanguage] = useState('');
+    const outputLanguage = outputLanguageOf(material);
     
-    const [isGeneratingPresentation, setIsGeneratingPresentation] = useState(false);
-    const [presentationGenProgress, setPresentationGenProgress] = useState('');
-    const [presentationError, setPresentationError] = useState<string | null>(null);
-
-    const [isGeneratingDiagram, setIsGeneratingDiagram] = useState(false);
-    const [diagramError, setDiagramError] = useState<string | null>(null);
 
     useEffect(() => {
         if (!contentId) { navigate('/'); return; }
+        if (!isLibraryLoaded) return;
         const foundMaterial = getStudyMaterialById(contentId);
         if (foundMaterial) { setMaterial(foundMaterial); } else { navigate('/'); }
-    }, [contentId, getStudyMaterialById, navigate]);
+    }, [contentId, getStudyMaterialById, navigate, isLibraryLoaded]);
 
     useEffect(() => {
       if (chatContainerRef.current) { chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight; }
-    }, [material?.chatHistory, isAwaitingChatResponse]);
+    }, [material?.chatHistory, isAwaitingChatResponse, streamingChatText]);
+
+    // Generations run as app-level jobs and outlive the page, but a chat reply belongs to it: leaving stops the
+    // reply, and handleSendMessage still saves what had arrived.
+    useEffect(() => () => chatControllerRef.current?.abort(), []);
 
     useEffect(() => {
       if (!('speechSynthesis' in window)) return;
       const loadVoices = () => {
-        const voices = window.speechSynthesis.getVoices();
-        const englishVoices = voices.filter(v => v.lang.startsWith('en') && !v.name.includes('Google') && !v.name.includes('Microsoft'));
-        setAvailableVoices(englishVoices);
-        if(englishVoices.length > 0) { setSelectedVoice(englishVoices[0]); }
+        const voices = voicesForLanguage(window.speechSynthesis.getVoices(), outputLanguage);
+        setAvailableVoices(voices);
+        setSelectedVoice(voices[0] || null);
       };
       loadVoices();
       window.speechSynthesis.onvoiceschanged = loadVoices;
       return () => { window.speechSynthesis.onvoiceschanged = null; }
-    }, []);
+    }, [outputLanguage]);
 
-    const handleGenerate = useCallback(async (type: 'summary' | 'explanation' | 'notes', generatorFn: () => Promise<any>) => {
-        if (!material?.id) return;
-        setIsLoading(prev => ({ ...prev, [type]: true }));
-        setError(prev => ({ ...prev, [type]: null }));
-        try {
-            const result = await generatorFn();
-            const updateKey = type === 'summary' ? 'aiSummary' : type === 'explanation' ? 'aiExplanation' : 'notes';
-            const updateValue = type === 'notes' ? { ...material.notes, [selectedNoteLength]: result } : result;
-            updateStudyMaterial(material.id, { [updateKey]: updateValue });
-        } catch (e) {
-            console.error(`Error generating ${type}:`, e);
-            setError(prev => ({ ...prev, [type]: `Failed to generate ${type}. Please try again.` }));
-        } finally {
-            setIsLoading(prev => ({ ...prev, [type]: false }));
-        }
-    }, [material?.id, material?.notes, selectedNoteLength, updateStudyMaterial]);
+    const handleGenerateExplanation = (cachePolicy?: CachePolicy) => {
+        if (!material?.extractedText) return;
+        startJob(explanationJobRequest(material.id, material.extractedText, outputLanguage, cachePolicy));
+    };
 
+    // The translation becomes a material of its own, linked back to this one, and gets its explanation like an upload.
+    const handleTranslate = () => {
+        if (!material?.extractedText || !translationLanguage) return;
+        const source = material;
+        const content = material.extractedText;
+        const language = translationLanguage;
+        startJob({
+            materialId: source.id,
+            kind: 'translation',
+            variant: language,
+            label: `${languageName(language)} translation`,
+            run: async ({ signal, onProgress, onCacheHit }) => {
+                const templateVersion = geminiService.templateVersionFor('translation');
+                const modelSettings = geminiService.modelSettingsFor('translation');
+                const translatedText = await geminiService.translateText(content, language, onProgress, signal, { onCacheHit });
+                const translationId = `content_${Date.now()}`;
+                const translation: StudyMaterial = {
+                    id: translationId,
+                    type: source.type,
+                    originalContent: source.originalContent,
+                    fileName: source.fileName,
+                    fileMimeType: source.fileMimeType,
+                    extractedText: translatedText,
+                    title: `${source.title} (${languageName(language)})`,
+                    subject: source.subject,
+                    topic: source.topic,
+                    difficulty: source.difficulty,
+                    outputLanguage: language,
+                    translationOf: source.id,
+                    uploadDate: new Date().toISOString(),
+                    templateVersions: { translation: templateVersion },
+                    modelSettings: { translation: modelSettings },
+                };
+                addContent(translation);
+                startJob(explanationJobRequest(translationId, translatedText, language));
+            },
+        });
+        setTranslationLanguage('');
+    };
 
-    const handleGenerateNotes = () => handleGenerate('notes', () => geminiService.generateNotes(material!.extractedText!, selectedNoteLength));
+    const handleGenerateNotes = (cachePolicy?: CachePolicy) => {
+        if (!material?.extractedText) return;
+        const content = material.extractedText;
+        const length = selectedNoteLength;
+        const language = outputLanguage;
+        startJob({
+            materialId: material.id,
+            kind: 'notes',
+            variant: length,
+            label: `${length} notes`,
+            run: async ({ signal, onProgress, onText, onCacheHit, updateMaterial }) => {
+                const templateVersion = geminiService.templateVersionFor('notes', length);
+                const modelSettings = geminiService.modelSettingsFor('notes');
+                const notes = await geminiService.generateNotes(content, length, onProgress, signal, onText, { policy: cachePolicy, onCacheHit }, language);
+                if (notes) updateMaterial(current => ({
+                    notes: { ...current.notes, [length]: notes },
+                    templateVersions: { ...current.templateVersions, [`notes.${length}`]: templateVersion },
+                    modelSettings: { ...current.modelSettings, [`notes.${length}`]: modelSettings },
+                }));
+            },
+        });
+    };
 
     const handleSendMessage = useCallback(async (textOverride?: string) => {
       const textToSend = (textOverride ?? chatInput).trim();
@@ -238,56 +398,85 @@ export const StudyPage: React.FC = () => {
       const userMessage: ChatMessage = { id: `msg_${Date.now()}`, sender: 'user', text: textToSend, timestamp: new Date().toISOString() };
       updateStudyMaterial(material.id, { chatHistory: [...(material.chatHistory || []), userMessage] });
       setChatInput('');
+      setChatError(null);
       setIsAwaitingChatResponse(true);
-      setError(prev => ({ ...prev, chat: null }));
+      setStreamingChatText('');
+      const controller = new AbortController();
+      chatControllerRef.current = controller;
+      tagUsage(controller.signal, { feature: 'chat', materialId: material.id });
+      const { signal } = controller;
 
       try {
-        const systemInstruction = `You are Ameena AI, a friendly and expert study assistant. The user is currently studying the following material titled "${material.title}". Topic: ${material.topic}. Subject: ${material.subject}.\n\nRefer to this content when answering, but do not mention it explicitly unless asked. Be helpful, encouraging, and clear.\n\n---\nSTUDY MATERIAL:\n${material.extractedText?.substring(0, 4000)}...\n---`;
-        const chat = geminiService.startOrGetChat(systemInstruction, material.chatHistory?.map(msg => ({ role: msg.sender === 'user' ? 'user' : 'model', parts: [{ text: msg.text }] })));
-        const { text: aiText, groundingSources } = await geminiService.sendMessageToChat(chat, userMessage.text, useGoogleSearch);
-        const aiMessage: ChatMessage = { id: `msg_${Date.now() + 1}`, sender: 'ai', text: aiText, timestamp: new Date().toISOString(), groundingSources: groundingSources };
+        const passages = material.extractedText ? await retrievalService.retrievePassages(material, textToSend, undefined, signal) : [];
+        const { text: systemInstruction, version: templateVersion } = renderPromptTemplate('chat', {
+            title: material.title,
+            topic: material.topic,
+            subject: material.subject,
+            passageCount: passages.length,
+            passages: retrievalService.formatPassagesForPrompt(passages),
+            transcriptHint: material.type === 'youtube' ? ' The material is a video transcript with [m:ss] timestamps; when you refer to something said in the video, also cite its timestamp in the same [m:ss] form.' : '',
+        });
+        const modelSettings = describeModelSettings(getModelSettings('chat'));
+        const history = (material.chatHistory || []).map(msg => ({ role: msg.sender === 'user' ? 'user' as const : 'assistant' as const, text: msg.text }));
+        const { text: aiText, groundingSources } = await geminiService.sendChatMessage(systemInstruction, history, userMessage.text, useGoogleSearch, signal, setStreamingChatText, outputLanguage);
+        if (!aiText) return; // Stopped before any text arrived
+        const citations = retrievalService.buildCitations(aiText, passages);
+        const aiMessage: ChatMessage = { id: `msg_${Date.now() + 1}`, sender: 'ai', text: aiText, timestamp: new Date().toISOString(), groundingSources: groundingSources, citations: citations.length > 0 ? citations : undefined, templateVersion, modelSettings };
         updateStudyMaterial(material.id, { chatHistory: [...(material.chatHistory || []), userMessage, aiMessage] });
       } catch (e: any) {
+        if (signal.aborted) return;
         console.error("Error sending message:", e);
-        const errorMessage: ChatMessage = { id: `err_${Date.now()}`, sender: 'ai', text: "Sorry, I encountered an error. Please check your connection or API key and try again.", timestamp: new Date().toISOString() };
-        const currentMaterial = getStudyMaterialById(material.id);
-        updateStudyMaterial(material.id, { chatHistory: [...(currentMaterial?.chatHistory || []), errorMessage] });
+        // The unanswered question is taken back out of the history and offered for a retry.
+        updateStudyMaterial(material.id, current => ({ chatHistory: (current.chatHistory || []).filter(msg => msg.id !== userMessage.id) }));
+        setChatError({ error: toAiServiceError(e), text: textToSend });
       } finally {
+        if (chatControllerRef.current === controller) chatControllerRef.current = null;
+        setStreamingChatText('');
         setIsAwaitingChatResponse(false);
       }
-    }, [chatInput, material, updateStudyMaterial, getStudyMaterialById, useGoogleSearch]);
+    }, [chatInput, material, updateStudyMaterial, useGoogleSearch, outputLanguage]);
     
-    const handleGenerateFullPresentation = async () => {
-        if (!material?.id || !material.aiExplanation) {
-            setPresentationError("An explanation must be generated first to create a presentation."); return;
-        }
-        setIsGeneratingPresentation(true);
-        setPresentationError(null);
-        setPresentationGenProgress('Starting presentation generation...');
-        try {
-            setPresentationGenProgress('Step 1/2: Crafting slide content...');
-            const content = await geminiService.generatePresentationContent(material.aiExplanation);
-            if (!content) throw new Error("The AI failed to generate presentation content.");
-            updateStudyMaterial(material.id, { presentationContent: content });
-            const onProgress = (progress: string) => setPresentationGenProgress(`Step 2/2: ${progress}`);
-            const contentWithImages = await geminiService.generatePresentationImages(content, onProgress);
-            if (contentWithImages) {
-                updateStudyMaterial(material.id, { presentationContent: contentWithImages });
-                if (contentWithImages.slides.some(s => !s.imageUrl)) setPresentationError("Some slide visuals could not be generated.");
-            } else { throw new Error("Failed to generate presentation images."); }
-        } catch (err: any) {
-            console.error("Presentation generation failed:", err);
-            setPresentationError(err.message || "An unknown error occurred.");
-            updateStudyMaterial(material.id, { presentationContent: undefined });
-        } finally {
-            setIsGeneratingPresentation(false);
-            setPresentationGenProgress('');
-        }
+    const handleShowPassage = (citation: PassageCitation) => {
+        setSourceHighlight({ startOffset: citation.startOffset, endOffset: citation.endOffset });
+        setIsSourceOpen(true);
     };
 
-    const handleDownloadPptx = () => {
+    // Past the soft budget, image-heavy features ask first. Past the hard budget the job itself refuses.
+    const confirmBudget = async (): Promise<boolean> => {
+        const check = await checkBudget().catch(() => null);
+        if (check?.status !== 'warning') return true;
+        return window.confirm(`You have spent ${formatUsd(check.spentUsd)} on AI this month, past your ${formatUsd(check.budget.softLimitUsd!)} soft budget. Generate anyway?`);
+    };
+
+    const handleGenerateFullPresentation = async (cachePolicy?: CachePolicy) => {
+        if (!material?.aiExplanation || !(await confirmBudget())) return;
+        const explanation = material.aiExplanation;
+        const language = outputLanguage;
+        startJob({
+            materialId: material.id,
+            kind: 'presentation',
+            label: 'Presentation',
+            run: async ({ signal, onProgress, onCacheHit, updateMaterial }) => {
+                onProgress('Step 1/2: Crafting slide content...');
+                const templateVersion = geminiService.templateVersionFor('presentation');
+                const modelSettings = geminiService.modelSettingsFor('presentation');
+                const content = await geminiService.generatePresentationContent(explanation, signal, { policy: cachePolicy, onCacheHit }, language);
+                const contentWithImages = await geminiService.generatePresentationImages(content, progress => onProgress(`Step 2/2: ${progress}`), signal);
+                // Saved only once the images are done, so a failed or cancelled run leaves the previous presentation as it was.
+                updateMaterial(current => ({
+                    presentationContent: contentWithImages,
+                    templateVersions: { ...current.templateVersions, presentation: templateVersion },
+                    modelSettings: { ...current.modelSettings, presentation: modelSettings },
+                }));
+            },
+        });
+    };
+
+    const handleDownloadPptx = async () => {
       if (!material?.presentationContent) return;
       const { title, slides } = material.presentationContent;
+      // Stored slide images have to be inlined before PptxGenJS can embed them.
+      const slideImages = await Promise.all(slides.map(slide => (slide.imageUrl ? resolveImageDataUrl(slide.imageUrl) : Promise.resolve(null))));
       const pptx = new PptxGenJS();
       pptx.layout = 'LAYOUT_16x9';
       
@@ -295,10 +484,11 @@ export const StudyPage: React.FC = () => {
       titleSlide.addText(title, { x: 0.5, y: 2.5, w: '90%', h: 1, fontSize: 44, bold: true, align: 'center' });
       titleSlide.addText(`By Ameena AI`, { x: 0.5, y: 3.5, w: '90%', h: 1, fontSize: 20, align: 'center' });
 
-      slides.forEach(slide => {
+      slides.forEach((slide, i) => {
         const pptxSlide = pptx.addSlide();
-        if (slide.imageUrl) {
-            pptxSlide.addImage({ data: slide.imageUrl, x: 0, y: 0, w: '100%', h: '100%' });
+        const imageData = slideImages[i];
+        if (imageData) {
+            pptxSlide.addImage({ data: imageData, x: 0, y: 0, w: '100%', h: '100%' });
         }
         pptxSlide.addText(slide.title, { x: 0.5, y: 0.25, w: '90%', h: 0.75, fontSize: 32, bold: true, color: "FFFFFF", outline: { size: 1, color: "000000" } });
         pptxSlide.addText(slide.content.join('\n'), { x: 0.5, y: 1.2, w: '50%', h: 4, fontSize: 18, bullet: true, color: "FFFFFF", outline: { size: 1, color: "000000" } });
@@ -307,77 +497,190 @@ export const StudyPage: React.FC = () => {
       pptx.writeFile({ fileName: `${safeFilename}.pptx` });
     };
     
-    const handleGenerateBlockDiagram = async () => {
-        if (!material?.aiExplanation) { setDiagramError("Please generate an explanation first."); return; }
-        setIsGeneratingDiagram(true);
-        setDiagramError(null);
-        try {
-            const mermaidCode = await geminiService.generateBlockDiagram(material.aiExplanation);
-            updateStudyMaterial(material!.id, { blockDiagramMermaid: mermaidCode || 'error' });
-        } catch (err: any) {
-            setDiagramError(err.message || 'Failed to generate diagram.');
-            updateStudyMaterial(material!.id, { blockDiagramMermaid: 'error' });
-        } finally {
-            setIsGeneratingDiagram(false);
-        }
+    const handleGenerateBlockDiagram = (cachePolicy?: CachePolicy) => {
+        if (!material?.aiExplanation) return;
+        const explanation = material.aiExplanation;
+        const language = outputLanguage;
+        startJob({
+            materialId: material.id,
+            kind: 'diagram',
+            label: 'Block diagram',
+            run: async ({ signal, onCacheHit, updateMaterial }) => {
+                const templateVersion = geminiService.templateVersionFor('diagram');
+                const modelSettings = geminiService.modelSettingsFor('diagram');
+                const diagram = await geminiService.generateBlockDiagram(explanation, signal, { policy: cachePolicy, onCacheHit }, language);
+                updateMaterial(current => ({
+                    blockDiagramMermaid: diagram,
+                    templateVersions: { ...current.templateVersions, diagram: templateVersion },
+                    modelSettings: { ...current.modelSettings, diagram: modelSettings },
+                }));
+            },
+        });
     };
     
     const handleGenerateVideo = async () => {
-        if (!material?.aiExplanation) { setError(prev => ({ ...prev, video: "Please generate an explanation first."})); return; }
-        setIsLoading(prev => ({ ...prev, video: true }));
-        setError(prev => ({ ...prev, video: null }));
-        setVideoGenerationProgress('Starting video generation...');
-        try {
-            const scenes = await geminiService.generateVideoAssets(material.aiExplanation, (progress) => setVideoGenerationProgress(progress));
-            updateStudyMaterial(material!.id, { videoScenes: scenes || [] });
-        } catch (err: any) {
-            console.error(err);
-            setError(prev => ({ ...prev, video: err.message || "An unknown error occurred."}));
-        } finally {
-            setIsLoading(prev => ({ ...prev, video: false }));
-            setVideoGenerationProgress('');
-        }
+        if (!material?.aiExplanation || !(await confirmBudget())) return;
+        const explanation = material.aiExplanation;
+        const language = outputLanguage;
+        startJob({
+            materialId: material.id,
+            kind: 'video',
+            label: 'Narrated video',
+            run: async ({ signal, onProgress, updateMaterial }) => {
+                onProgress('Starting video generation...');
+                const templateVersion = geminiService.templateVersionFor('video');
+                const modelSettings = geminiService.modelSettingsFor('video');
+                const scenes = await geminiService.generateVideoAssets(explanation, onProgress, signal, language);
+                updateMaterial(current => ({
+                    videoScenes: scenes,
+                    templateVersions: { ...current.templateVersions, video: templateVersion },
+                    modelSettings: { ...current.modelSettings, video: modelSettings },
+                }));
+            },
+        });
     };
 
 
     if (!material) return <LoadingSpinner text="Loading study material..." />;
     
     const noteForSelectedLength = material.notes?.[selectedNoteLength];
+    const explanationJob = getJob(material.id, 'explanation');
+    const notesJob = getJob(material.id, 'notes', selectedNoteLength);
+    const presentationJob = getJob(material.id, 'presentation');
+    const diagramJob = getJob(material.id, 'diagram');
+    const videoJob = getJob(material.id, 'video');
+    const isExplaining = isJobActive(explanationJob);
+    const isGeneratingNotes = isJobActive(notesJob);
+    const isGeneratingPresentation = isJobActive(presentationJob);
+    const isGeneratingDiagram = isJobActive(diagramJob);
+    const isGeneratingVideo = isJobActive(videoJob);
+    const streamingNotes = notesJob?.streamingText || '';
+    const videoUrl = material.type === 'youtube' ? material.originalContent : undefined;
+    const translationJob = getJob(material.id, 'translation');
+    const isTranslating = isJobActive(translationJob);
+    const sourceMaterial = material.translationOf ? getStudyMaterialById(material.translationOf) : undefined;
+    const translations = studyMaterials.filter(other => other.translationOf === material.id && !other.trashedAt);
+    const translationTargets = OUTPUT_LANGUAGES.filter(language => language.code !== outputLanguage && !translations.some(other => other.outputLanguage === language.code));
 
     return (
         <div>
             <header className="study-page-header">
-                <p className="meta-info">{material.subject} &gt; {material.topic}</p>
-                <h1>{material.title}</h1>
-                <div className="details">
-                    <span>Difficulty: {material.difficulty}</span>
-                    <span>Type: {material.type}</span>
-                </div>
+                {isEditingDetails ? (
+                    <MaterialMetadataEditor
+                        material={material}
+                        onSave={updates => { updateStudyMaterial(material.id, updates); setIsEditingDetails(false); }}
+                        onCancel={() => setIsEditingDetails(false)}
+                    />
+                ) : (
+                    <>
+                        <p className="meta-info">{material.subject} &gt; {material.topic}</p>
+                        <h1>{material.title}</h1>
+                        <div className="details">
+                            <span>Difficulty: {material.difficulty}</span>
+                            <span>Type: {material.type}</span>
+                            <span>Output language: {languageName(outputLanguage)}{material.outputLanguage ? '' : ' (app default)'}</span>
+                            {material.archivedAt && <span>Archived</span>}
+                        </div>
+                        {!material.trashedAt && (
+                            <div className="study-page-header-actions">
+                                <Button variant="ghost" leftIcon={<PencilSquareIcon />} onClick={() => setIsEditingDetails(true)}>Edit details</Button>
+                                <Button variant="ghost" onClick={() => setStudyMaterialArchived(material.id, !material.archivedAt)}>{material.archivedAt ? 'Unarchive' : 'Archive'}</Button>
+                                <Button variant="ghost" onClick={() => { moveStudyMaterialToTrash(material.id); navigate('/dashboard'); }}>Move to trash</Button>
+                            </div>
+                        )}
+                    </>
+                )}
             </header>
 
+            {material.trashedAt && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '1.5rem' }}>
+                    <Alert type="warning" title="In the trash" message="This material is in the trash. Restore it to keep studying with it." style={{ flex: 1 }} />
+                    <Button variant="secondary" onClick={() => restoreStudyMaterialFromTrash(material.id)}>Restore</Button>
+                </div>
+            )}
+
             <div className="study-page-layout">
                 <div>
-                    <CollapsibleCard title="Original Content" icon={BookOpenIcon}>
-                      <p style={{whiteSpace: 'pre-wrap'}}>{material.extractedText || "No text content available."}</p>
+                    <CollapsibleCard title="Original Content" icon={BookOpenIcon} isOpen={isSourceOpen} onToggle={setIsSourceOpen}>
+                      {material.extractionWarnings?.map((warning, i) => <Alert key={i} type="warning" message={warning} style={{ marginBottom: '1rem' }} />)}
+                      {material.sourceImageUrl && (
+                        <StoredImage className="source-image" src={material.sourceImageUrl} alt={material.fileName || material.title || 'Uploaded image'} />
+                      )}
+                      {videoUrl && !material.transcriptSegments && !material.translationOf && (
+                        <Alert type="warning" title="Unverified transcript" message="This material was added before caption tracks were supported. Its transcript was written by the AI from the video URL and may not reflect what the video actually says." style={{ marginBottom: '1rem' }} />
+                      )}
+                      {videoUrl && (
+                        <p><a href={videoUrl} target="_blank" rel="noopener noreferrer">Watch the video on YouTube</a></p>
+                      )}
+                      {material.extractedText ? (
+                        <SourceTextView text={material.extractedText} sourceLocations={material.sourceLocations} videoUrl={videoUrl} highlight={sourceHighlight} />
+                      ) : (
+                        <p>No text content available.</p>
+                      )}
+                    </CollapsibleCard>
+
+                    <CollapsibleCard title="Translations" icon={GlobeAltIcon}>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                            {material.translationOf && (
+                                <p style={{ margin: 0 }}>
+                                    Translated from {sourceMaterial ? <Link to={`/study/${sourceMaterial.id}`}>{sourceMaterial.title || 'the original'}</Link> : 'a material that is no longer in your library'}.
+                                </p>
+                            )}
+                            {translations.length > 0 && (
+                                <ul style={{ margin: 0, paddingLeft: '1.25rem' }}>
+                                    {translations.map(translation => (
+                                        <li key={translation.id}>
+                                            <Link to={`/study/${translation.id}`}>{languageName(outputLanguageOf(translation))}: {translation.title}</Link>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            {translationJob?.status === 'failed' && <AiErrorAlert error={translationJob.error} onRetry={() => retryJob(translationJob.id)} />}
+                            {isTranslating ? (
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+                                    <LoadingSpinner text={jobProgressText(translationJob)} />
+                                    <Button variant="secondary" onClick={() => cancelJob(translationJob!.id)}>Stop</Button>
+                                </div>
+                            ) : (
+                                <div style={{ display: 'flex', alignItems: 'flex-end', gap: '1rem', flexWrap: 'wrap' }}>
+                                    <div>
+                                        <label htmlFor="translation-language" className="form-label">Translate into</label>
+                                        <select id="translation-language" className="form-select" value={translationLanguage} onChange={e => setTranslationLanguage(e.target.value)} disabled={translationTargets.length === 0}>
+                                            <option value="">Choose a language</option>
+                                            {translationTargets.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+                                        </select>
+                                    </div>
+                                    <Button onClick={() => handleTranslate()} disabled={!material.extractedText || !translationLanguage} leftIcon={<SparklesIcon />}>Translate</Button>
+                                </div>
+                            )}
+                            <p style={{ fontSize: '0.75rem', margin: 0 }}>A translation is saved as a new material linked to this one, with its own explanation and study aids.</p>
+                        </div>
                     </CollapsibleCard>
                     
                     <CollapsibleCard title="AI-Powered Explanation" icon={LightBulbIcon} defaultOpen={true}>
                        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                            {error.explanation && <Alert type="error" message={error.explanation} />}
-                            {material.aiExplanation ? (
-                                <p style={{whiteSpace: 'pre-wrap'}}>{material.aiExplanation}</p>
+                            {explanationJob?.status === 'failed' && <AiErrorAlert error={explanationJob.error} onRetry={() => retryJob(explanationJob.id)} style={{ marginBottom: '1rem' }} />}
+                            {wasServedFromCache(explanationJob) && <CachedNotice onRefresh={() => handleGenerateExplanation('refresh')} />}
+                            {explanationJob?.streamingText ? (
+                                <div className="streaming-text"><TimestampedText text={explanationJob.streamingText} videoUrl={videoUrl} /></div>
+                            ) : material.aiExplanation ? (
+                                <>
+                                    <div dir={textDirection(outputLanguage)}><TimestampedText text={material.aiExplanation} videoUrl={videoUrl} /></div>
+                                    <GenerationInfoCaption material={material} artifact="explanation" />
+                                </>
                             ) : (
                                 <p>No explanation generated yet. Click the button to get started!</p>
                             )}
-                            <Button onClick={() => handleGenerate('explanation', () => geminiService.generateExplanation(material.extractedText!))} isLoading={isLoading.explanation} disabled={!material.extractedText || isLoading.explanation} leftIcon={<SparklesIcon />}>
-                                {isLoading.explanation ? 'Generating...' : (material.aiExplanation ? 'Regenerate Explanation' : 'Generate Explanation')}
+                            <Button onClick={() => handleGenerateExplanation()} isLoading={isExplaining} disabled={!material.extractedText || isExplaining} leftIcon={<SparklesIcon />}>
+                                {isExplaining ? jobProgressText(explanationJob) : (material.aiExplanation ? 'Regenerate Explanation' : 'Generate Explanation')}
                             </Button>
+                            {isExplaining && <Button variant="secondary" onClick={() => cancelJob(explanationJob!.id)}>Stop</Button>}
                         </div>
                     </CollapsibleCard>
 
                     <CollapsibleCard title="AI-Generated Notes" icon={ClipboardListIcon}>
                         <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                          {error.notes && <Alert type="error" message={error.notes} />}
+                          {notesJob?.status === 'failed' && <AiErrorAlert error={notesJob.error} onRetry={() => retryJob(notesJob.id)} style={{ marginBottom: '1rem' }} />}
                           <div className="note-length-selector">
                               {(Object.keys(NoteLength) as Array<keyof typeof NoteLength>).map(key => (
                                 <Button key={key} onClick={() => setSelectedNoteLength(NoteLength[key])} variant={selectedNoteLength === NoteLength[key] ? 'primary' : 'ghost'}>
@@ -386,28 +689,42 @@ export const StudyPage: React.FC = () => {
                               ))}
                           </div>
                           
-                          {noteForSelectedLength ? (
-                            <p style={{whiteSpace: 'pre-wrap'}}>{noteForSelectedLength}</p>
+                          {wasServedFromCache(notesJob) && <CachedNotice onRefresh={() => handleGenerateNotes('refresh')} />}
+                          {streamingNotes ? (
+                            <div className="streaming-text"><TimestampedText text={streamingNotes} videoUrl={videoUrl} /></div>
+                          ) : noteForSelectedLength ? (
+                            <>
+                              <div dir={textDirection(outputLanguage)}><TimestampedText text={noteForSelectedLength} videoUrl={videoUrl} /></div>
+                              <GenerationInfoCaption material={material} artifact={`notes.${selectedNoteLength}`} />
+                            </>
                           ) : (
                             <p>Notes for this level of detail have not been generated yet.</p>
                           )}
-                          <Button onClick={handleGenerateNotes} isLoading={isLoading.notes} disabled={!material.extractedText || isLoading.notes} leftIcon={<SparklesIcon />}>
-                              {isLoading.notes ? 'Generating...' : (noteForSelectedLength ? `Regenerate ${selectedNoteLength} Notes` : `Generate ${selectedNoteLength} Notes`)}
+                          <Button onClick={() => handleGenerateNotes()} isLoading={isGeneratingNotes} disabled={!material.extractedText || isGeneratingNotes} leftIcon={<SparklesIcon />}>
+                              {isGeneratingNotes ? `${notesJob!.variant} notes: ${jobProgressText(notesJob)}` : (noteForSelectedLength ? `Regenerate ${selectedNoteLength} Notes` : `Generate ${selectedNoteLength} Notes`)}
                           </Button>
+                          {isGeneratingNotes && <Button variant="secondary" onClick={() => cancelJob(notesJob!.id)}>Stop</Button>}
                         </div>
                     </CollapsibleCard>
 
                     <CollapsibleCard title="Generate Presentation" icon={PresentationChartIcon}>
                         <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                            {presentationError && <Alert type="error" title="Presentation Error" message={presentationError} />}
-                            {isGeneratingPresentation && <LoadingSpinner text={presentationGenProgress} />}
+                            {presentationJob?.status === 'failed' && <AiErrorAlert error={presentationJob.error} onRetry={() => retryJob(presentationJob.id)} style={{ marginBottom: '1rem' }} />}
+                            {isGeneratingPresentation && (
+                                <>
+                                    <LoadingSpinner text={jobProgressText(presentationJob)} />
+                                    <Button variant="secondary" onClick={() => cancelJob(presentationJob!.id)} style={{ alignSelf: 'center' }}>Cancel</Button>
+                                </>
+                            )}
 
                             {!isGeneratingPresentation && material.presentationContent && (
                                 <>
+                                    {wasServedFromCache(presentationJob) && <CachedNotice onRefresh={() => handleGenerateFullPresentation('refresh')} />}
                                     <PresentationViewer presentation={material.presentationContent} />
+                                    <GenerationInfoCaption material={material} artifact="presentation" />
                                     <div style={{ display: 'flex', justifyContent: 'center', gap: '1rem', marginTop: '1rem' }}>
                                         <Button onClick={handleDownloadPptx} leftIcon={<DownloadIcon />}>Download .pptx</Button>
-                                        <Button variant="secondary" onClick={handleGenerateFullPresentation} leftIcon={<SparklesIcon />}>Regenerate</Button>
+                                        <Button variant="secondary" onClick={() => handleGenerateFullPresentation()} leftIcon={<SparklesIcon />}>Regenerate</Button>
                                     </div>
                                 </>
                             )}
@@ -415,8 +732,8 @@ export const StudyPage: React.FC = () => {
                             {!isGeneratingPresentation && !material.presentationContent && (
                                 <div style={{ textAlign: 'center' }}>
                                     <p>Create a PowerPoint presentation from the AI-generated explanation.</p>
-                                    <Button onClick={handleGenerateFullPresentation} isLoading={isGeneratingPresentation} disabled={!material.aiExplanation || isGeneratingPresentation} leftIcon={<SparklesIcon />}>
-                                        {isGeneratingPresentation ? presentationGenProgress : 'Generate Presentation'}
+                                    <Button onClick={() => handleGenerateFullPresentation()} isLoading={isGeneratingPresentation} disabled={!material.aiExplanation || isGeneratingPresentation} leftIcon={<SparklesIcon />}>
+                                        {isGeneratingPresentation ? jobProgressText(presentationJob) : 'Generate Presentation'}
                                     </Button>
                                     {!material.aiExplanation && <p style={{ fontSize: '0.75rem', marginTop: '0.5rem' }}>Please generate an explanation first.</p>}
                                 </div>
@@ -427,15 +744,18 @@ export const StudyPage: React.FC = () => {
                     <CollapsibleCard title="Visualize as Block Diagram" icon={Squares2X2Icon}>
                         <ErrorBoundary>
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', alignItems: 'center' }}>
-                                {diagramError && <Alert type="error" title="Diagram Error" message={diagramError} />}
+                                {diagramJob?.status === 'failed' && <AiErrorAlert error={diagramJob.error} onRetry={() => retryJob(diagramJob.id)} style={{ marginBottom: '1rem' }} />}
+                                {wasServedFromCache(diagramJob) && <CachedNotice onRefresh={() => handleGenerateBlockDiagram('refresh')} />}
                                 {material.blockDiagramMermaid && material.blockDiagramMermaid !== 'error' && (
                                     <div style={{padding: '1rem', backgroundColor: 'white' }}><MermaidDiagram chart={material.blockDiagramMermaid} /></div>
                                 )}
-                                {material.blockDiagramMermaid === 'error' && !diagramError && (
+                                {material.blockDiagramMermaid && material.blockDiagramMermaid !== 'error' && <GenerationInfoCaption material={material} artifact="diagram" />}
+                                {/* Older materials stored 'error' when a diagram failed */}
+                                {material.blockDiagramMermaid === 'error' && diagramJob?.status !== 'failed' && (
                                     <Alert type="warning" title="Could not generate diagram" message="The AI was unable to create a valid diagram from the text." />
                                 )}
                                 <div>
-                                    <Button onClick={handleGenerateBlockDiagram} isLoading={isGeneratingDiagram} disabled={!material.aiExplanation || isGeneratingDiagram} leftIcon={<SparklesIcon />}>
+                                    <Button onClick={() => handleGenerateBlockDiagram()} isLoading={isGeneratingDiagram} disabled={!material.aiExplanation || isGeneratingDiagram} leftIcon={<SparklesIcon />}>
                                         {isGeneratingDiagram ? 'Generating...' : (material.blockDiagramMermaid ? 'Regenerate Diagram' : 'Generate Diagram')}
                                     </Button>
                                     {!material.aiExplanation && <p style={{ fontSize: '0.75rem', marginTop: '0.5rem' }}>Please generate an explanation first.</p>}
@@ -447,12 +767,18 @@ export const StudyPage: React.FC = () => {
                     <CollapsibleCard title="Generate AI-Narrated Video" icon={PlayIcon}>
                         <ErrorBoundary>
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', alignItems: 'center' }}>
-                                {error.video && <Alert type="error" title="Video Generation Error" message={error.video} />}
-                                {isLoading.video && <LoadingSpinner text={videoGenerationProgress} />}
+                                {videoJob?.status === 'failed' && <AiErrorAlert error={videoJob.error} onRetry={() => retryJob(videoJob.id)} style={{ marginBottom: '1rem' }} />}
+                                {isGeneratingVideo && (
+                                    <>
+                                        <LoadingSpinner text={jobProgressText(videoJob)} />
+                                        <Button variant="secondary" onClick={() => cancelJob(videoJob!.id)}>Cancel</Button>
+                                    </>
+                                )}
 
-                                {!isLoading.video && material.videoScenes && material.videoScenes.length > 0 && (
+                                {!isGeneratingVideo && material.videoScenes && material.videoScenes.length > 0 && (
                                     <div style={{width: '100%'}}>
-                                        <VideoPlayer scenes={material.videoScenes} selectedVoice={selectedVoice}/>
+                                        <VideoPlayer scenes={material.videoScenes} selectedVoice={selectedVoice} language={outputLanguage} />
+                                        <GenerationInfoCaption material={material} artifact="video" />
                                         <div style={{ marginTop: '1rem', textAlign: 'center' }}>
                                             <label htmlFor="voice-select" className="form-label">Voice:</label>
                                             <select id="voice-select" className="form-select" value={selectedVoice?.name || ''} onChange={(e) => { const voice = availableVoices.find(v => v.name === e.target.value); if (voice) setSelectedVoice(voice); }} disabled={availableVoices.length === 0}>
@@ -465,8 +791,8 @@ export const StudyPage: React.FC = () => {
                                 )}
                                 
                                 <div>
-                                    <Button onClick={handleGenerateVideo} isLoading={isLoading.video} disabled={!material.aiExplanation || isLoading.video} leftIcon={<SparklesIcon />}>
-                                        {isLoading.video ? videoGenerationProgress : (material.videoScenes && material.videoScenes.length > 0 ? 'Regenerate Video' : 'Generate Video')}
+                                    <Button onClick={handleGenerateVideo} isLoading={isGeneratingVideo} disabled={!material.aiExplanation || isGeneratingVideo} leftIcon={<SparklesIcon />}>
+                                        {isGeneratingVideo ? jobProgressText(videoJob) : (material.videoScenes && material.videoScenes.length > 0 ? 'Regenerate Video' : 'Generate Video')}
                                     </Button>
                                     {!material.aiExplanation && <p style={{ fontSize: '0.75rem', marginTop: '0.5rem' }}>Please generate an explanation first.</p>}
                                 </div>
@@ -485,8 +811,21 @@ export const StudyPage: React.FC = () => {
                             <div className="chat-message-avatar">
                                 {msg.sender === 'user' ? <UserIcon /> : <AmeenaLogoIcon />}
                             </div>
-                            <div className="chat-message-bubble">
-                                <div dangerouslySetInnerHTML={{ __html: msg.text.replace(/\n/g, '<br />') }}></div>
+                            <div className="chat-message-bubble" dir="auto" title={[msg.templateVersion && `Prompt template: ${msg.templateVersion}`, msg.modelSettings && `Model: ${msg.modelSettings}`].filter(Boolean).join(' · ') || undefined}>
+                                <ChatMessageText message={msg} videoUrl={videoUrl} onCitationClick={handleShowPassage} />
+                                {msg.citations && msg.citations.length > 0 && (
+                                    <div className="chat-message-sources">
+                                        <strong>From your material:</strong>
+                                        <ul>
+                                            {msg.citations.map(citation => (
+                                                <li key={citation.marker}>
+                                                    <button type="button" className="citation-link" onClick={() => handleShowPassage(citation)}>[{citation.marker}] {citation.label}</button>
+                                                    <span className="citation-excerpt">{citation.excerpt}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
                                 {msg.groundingSources && msg.groundingSources.length > 0 && (
                                     <div className="chat-message-sources">
                                         <strong>Sources:</strong>
@@ -504,7 +843,15 @@ export const StudyPage: React.FC = () => {
                             <p>Ready to help!</p><p>Ask a question about your material.</p>
                         </div>
                         )}
-                        {isAwaitingChatResponse && (
+                        {isAwaitingChatResponse && streamingChatText && (
+                          <div className="chat-message ai">
+                            <div className="chat-message-avatar"><AmeenaLogoIcon /></div>
+                            <div className="chat-message-bubble streaming-text">
+                              <ChatMessageText message={{ id: 'streaming', sender: 'ai', text: streamingChatText, timestamp: '' }} videoUrl={videoUrl} onCitationClick={handleShowPassage} />
+                            </div>
+                          </div>
+                        )}
+                        {isAwaitingChatResponse && !streamingChatText && (
                           <div style={{alignSelf: 'flex-start'}}>
                             <div className="typing-indicator" aria-label="AI is typing">
                               <span></span><span></span><span></span>
@@ -514,15 +861,23 @@ export const StudyPage: React.FC = () => {
                     </div>
                     
                     <div className="chat-input-area">
-                        {error.chat && <Alert type="error" message={error.chat} />}
+                        {chatError && !isAwaitingChatResponse && (
+                            <AiErrorAlert error={chatError.error} onRetry={() => handleSendMessage(chatError.text)} style={{ marginBottom: '0.75rem' }} />
+                        )}
                         <div className="chat-input-wrapper">
                             <textarea value={chatInput} onChange={(e) => setChatInput(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendMessage(); }}} placeholder="Ask a question..." rows={1} className="form-textarea" disabled={isAwaitingChatResponse} />
-                            <Button variant="ghost" onClick={() => handleSendMessage()} disabled={!chatInput.trim() || isAwaitingChatResponse}>Send</Button>
+                            {isAwaitingChatResponse ? (
+                                <Button variant="ghost" onClick={() => chatControllerRef.current?.abort()}>Stop</Button>
+                            ) : (
+                                <Button variant="ghost" onClick={() => handleSendMessage()} disabled={!chatInput.trim()}>Send</Button>
+                            )}
                         </div>
-                        <label className="chat-google-toggle">
-                            <input type="checkbox" checked={useGoogleSearch} onChange={(e) => setUseGoogleSearch(e.target.checked)} />
-                            <GlobeAltIcon style={{ width: 16, height: 16 }}/> Search with Google for up-to-date info
-                        </label>
+                        {getLlmProvider().supportsWebSearch && (
+                            <label className="chat-google-toggle">
+                                <input type="checkbox" checked={useGoogleSearch} onChange={(e) => setUseGoogleSearch(e.target.checked)} />
+                                <GlobeAltIcon style={{ width: 16, height: 16 }}/> Search with Google for up-to-date info
+                            </label>
+                        )}
                     </div>
                 </aside>
             </div>
@@ -0,0 +1,308 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { LLM_RATE_LIMITS, GEMINI_API_PRO_TEXT_MODEL, GEMINI_API_PRO_IMAGE_MODEL } from '../constants';
+import { createGeminiProvider } from '../services/llm/geminiProvider';
+import { AiErrorKind, toAiServiceError } from '../services/llm/errors';
+import { onUsage, UsageReport } from '../services/llm/usage';
+import { LlmProvider, TextStreamHandler, Prompt, PromptPart, ModelParameters, GenerationOptions, ChatRequest, ChatTurn, JsonSchema, EmbeddingTaskType } from '../services/llm/types';
+import { ProxyOperation, ProxyResult, ProxyFailure } from '../services/llm/proxyProvider';
+import { createClientRateLimiter } from './rateLimiter';
+
+// A small proxy that holds the Gemini key and runs the provider operations for the app (see
+// services/llm/proxyProvider.ts), limiting each client to the same request rates the app paces itself to.
+//
+//   GEMINI_API_KEY=... PROXY_ALLOWED_ORIGINS=https://your-site.example npm run proxy
+//
+// PROXY_ALLOWED_ORIGINS (comma-separated) is required: requests from any other origin, or with no Origin header, are
+// refused. That keeps other websites out, but a script can send any Origin it likes, so against non-browser clients
+// the per-client rate limits are the only protection. PROXY_PORT
+// (default 8787), PROXY_ALLOWED_MODELS (comma-separated, default the app's Gemini text and image models) and
+// PROXY_TRUST_FORWARDED_FOR (set to "true" behind a reverse proxy, so clients are told apart by X-Forwarded-For) are
+// optional.
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024; // Image transcription sends the image inline
+
+const STATUS_BY_KIND: Record<AiErrorKind, number> = {
+  'missing-key': 500, // The proxy's own key is wrong; nothing the client can fix
+  'rate-limit': 429,
+  'safety-block': 422,
+  'invalid-response': 502,
+  'content-too-short': 422,
+  'budget-exceeded': 402,
+  'network': 502,
+  'cancelled': 499,
+  'unknown': 500,
+};
+
+const listFromEnv = (value?: string) => value?.split(',').map(item => item.trim()).filter(Boolean) || [];
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY must be set to run the proxy.');
+  process.exit(1);
+}
+
+const allowedOrigins = listFromEnv(process.env.PROXY_ALLOWED_ORIGINS);
+if (allowedOrigins.length === 0) {
+  console.error('PROXY_ALLOWED_ORIGINS must list the origins the app is served from, e.g. https://your-site.example.');
+  process.exit(1);
+}
+
+const allowedModels = listFromEnv(process.env.PROXY_ALLOWED_MODELS);
+if (allowedModels.length === 0) allowedModels.push(GEMINI_API_PRO_TEXT_MODEL, GEMINI_API_PRO_IMAGE_MODEL);
+
+const port = Number(process.env.PROXY_PORT) || 8787;
+const trustForwardedFor = process.env.PROXY_TRUST_FORWARDED_FOR === 'true';
+const provider = createGeminiProvider(apiKey);
+const rateLimiter = createClientRateLimiter(LLM_RATE_LIMITS);
+
+type Args = Record<string, unknown>;
+
+const badRequest = (message: string) => Object.assign(new Error(message), { status: 400 });
+
+const isRecord = (value: unknown): value is Args => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isPromptPart = (value: unknown): value is PromptPart =>
+  isRecord(value) && (isString(value.text) || (isRecord(value.inlineData) && isString(value.inlineData.mimeType) && isString(value.inlineData.data)));
+const isPrompt = (value: unknown): value is Prompt => isString(value) || (Array.isArray(value) && value.every(isPromptPart));
+const isChatHistory = (value: unknown): value is ChatTurn[] =>
+  Array.isArray(value) && value.every(turn => isRecord(turn) && (turn.role === 'user' || turn.role === 'assistant') && isString(turn.text));
+const isJsonSchema = (value: unknown): value is JsonSchema => isRecord(value) && isString(value.type); // The provider rejects the rest
+const isAspectRatio = (value: unknown): value is '16:9' | '1:1' => value === '16:9' || value === '1:1';
+const isEmbeddingTaskType = (value: unknown): value is EmbeddingTaskType => value === 'RETRIEVAL_DOCUMENT' || value === 'RETRIEVAL_QUERY';
+
+const required = <T,>(args: Args, name: string, check: (value: unknown) => value is T): T => {
+  const value = args[name];
+  if (!check(value)) throw badRequest(`"${name}" is missing or invalid.`);
+  return value;
+};
+
+const optional = <T,>(args: Args, name: string, check: (value: unknown) => value is T): T | undefined =>
+  args[name] === undefined || args[name] === null ? undefined : required(args, name, check);
+
+// Clients choose the model for each call, so anything off the list is refused rather than run on the proxy's key.
+const allowedModel = (args: Args): string | undefined => {
+  const model = optional(args, 'model', isString);
+  if (model && !allowedModels.includes(model)) throw badRequest(`The model "${model}" is not available through this proxy.`);
+  return model || undefined;
+};
+
+// Only the fields the app sends are passed on to the provider.
+const readParameters = (args: Args): ModelParameters => ({
+  model: allowedModel(args),
+  temperature: optional(args, 'temperature', isNumber),
+  topP: optional(args, 'topP', isNumber),
+  topK: optional(args, 'topK', isNumber),
+});
+
+const readOptions = (args: Args): GenerationOptions => {
+  const options = optional(args, 'options', isRecord) || {};
+  return { ...readParameters(options), systemInstruction: optional(options, 'systemInstruction', isString) };
+};
+
+const readChatRequest = (args: Args): Omit<ChatRequest, 'signal'> => {
+  const request = required(args, 'request', isRecord);
+  return {
+    ...readParameters(request),
+    systemInstruction: required(request, 'systemInstruction', isString),
+    history: required(request, 'history', isChatHistory),
+    message: required(request, 'message', isString),
+    useWebSearch: optional(request, 'useWebSearch', isBoolean),
+  };
+};
+
+type ProviderCall = (provider: LlmProvider, signal: AbortSignal, onText: TextStreamHandler) => Promise<unknown>;
+
+interface OperationHandler {
+  bucket: 'text' | 'image' | 'embedding';
+  // Checks the arguments before anything is sent back, throwing a 400 for any that are missing or not allowed.
+  prepare: (args: Args) => ProviderCall;
+  streams?: boolean;
+}
+
+const OPERATIONS: Record<ProxyOperation, OperationHandler> = {
+  generateText: {
+    bucket: 'text',
+    prepare: args => {
+      const [prompt, options] = [required(args, 'prompt', isPrompt), readOptions(args)];
+      return (provider, signal) => provider.generateText(prompt, { ...options, signal });
+    },
+  },
+  generateJson: {
+    bucket: 'text',
+    prepare: args => {
+      const [prompt, schema, options] = [required(args, 'prompt', isPrompt), required(args, 'schema', isJsonSchema), readOptions(args)];
+      return (provider, signal) => provider.generateJson(prompt, schema, { ...options, signal });
+    },
+  },
+  chat: {
+    bucket: 'text',
+    prepare: args => {
+      const request = readChatRequest(args);
+      return (provider, signal) => provider.chat({ ...request, signal });
+    },
+  },
+  streamText: {
+    bucket: 'text',
+    streams: true,
+    prepare: args => {
+      const [prompt, options] = [required(args, 'prompt', isPrompt), readOptions(args)];
+      return (provider, signal, onText) => provider.streamText(prompt, { ...options, signal }, onText);
+    },
+  },
+  streamChat: {
+    bucket: 'text',
+    streams: true,
+    prepare: args => {
+      const request = readChatRequest(args);
+      return (provider, signal, onText) => provider.streamChat({ ...request, signal }, onText);
+    },
+  },
+  generateImage: {
+    bucket: 'image',
+    prepare: args => {
+      const [prompt, aspectRatio, model] = [required(args, 'prompt', isString), required(args, 'aspectRatio', isAspectRatio), allowedModel(args)];
+      return (provider, signal) => provider.generateImage(prompt, aspectRatio, signal, model);
+    },
+  },
+  embed: {
+    bucket: 'embedding',
+    prepare: args => {
+      const [texts, taskType] = [required(args, 'texts', isStringList), required(args, 'taskType', isEmbeddingTaskType)];
+      return (provider, signal) => provider.embed(texts, taskType, signal);
+    },
+  },
+};
+
+// Usage reports arrive through a process-wide listener; each is handed to the request whose signal it carries.
+const usageBySignal = new Map<AbortSignal, UsageReport[]>();
+onUsage((report, signal) => { if (signal) usageBySignal.get(signal)?.push(report); });
+
+const clientIdOf = (req: IncomingMessage): string => {
+  const forwarded = trustForwardedFor ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const readBody = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stops reading without closing the socket, so the 413 can still be sent; the connection is closed after it.
+        req.off('data', onData);
+        req.pause();
+        reject(Object.assign(new Error('Request body is too large.'), { status: 413 }));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch (error) {
+        reject(Object.assign(new Error('Request body is not valid JSON.'), { status: 400 }));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: ProxyResult | ProxyFailure | { error: string }, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const toFailure = (error: unknown): ProxyFailure => {
+  const aiError = toAiServiceError(error);
+  return { error: { kind: aiError.kind, message: aiError.message, retryAfterMs: aiError.retryAfterMs } };
+};
+
+const setCorsHeaders = (req: IncomingMessage, res: ServerResponse) => {
+  const origin = req.headers.origin;
+  if (!origin || !allowedOrigins.includes(origin)) return;
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+};
+
+const handleOperation = async (req: IncomingMessage, res: ServerResponse, operation: OperationHandler) => {
+  const waitMs = rateLimiter.take(clientIdOf(req), operation.bucket);
+  if (waitMs > 0) {
+    const failure: ProxyFailure = { error: { kind: 'rate-limit', message: 'Too many requests from this client. Slow down and try again.', retryAfterMs: waitMs } };
+    sendJson(res, 429, failure, { 'Retry-After': String(Math.ceil(waitMs / 1000)) });
+    return;
+  }
+
+  const args = await readBody(req);
+  if (!isRecord(args)) throw badRequest('The request body must be a JSON object.');
+  const call = operation.prepare(args);
+  const controller = new AbortController();
+  res.on('close', () => { if (!res.writableFinished) controller.abort(); }); // The client went away, so stop paying for the answer
+  const usage: UsageReport[] = [];
+  usageBySignal.set(controller.signal, usage);
+
+  try {
+    if (!operation.streams) {
+      const result = await call(provider, controller.signal, () => {});
+      sendJson(res, 200, { result, usage });
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    try {
+      const result = await call(provider, controller.signal, text => res.write(`${JSON.stringify({ text })}\n`));
+      res.end(`${JSON.stringify({ result, usage })}\n`);
+    } catch (error) {
+      res.end(`${JSON.stringify(toFailure(error))}\n`); // Too late for a status code, so the failure goes in the stream
+    }
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    const failure = toFailure(error);
+    const headers: Record<string, string> = failure.error.retryAfterMs ? { 'Retry-After': String(Math.ceil(failure.error.retryAfterMs / 1000)) } : {};
+    sendJson(res, STATUS_BY_KIND[failure.error.kind], failure, headers);
+  } finally {
+    usageBySignal.delete(controller.signal);
+  }
+};
+
+const server = createServer(async (req, res) => {
+  // Browsers enforce CORS only on the response, so requests from other sites are refused here before they cost anything.
+  // Browsers always send Origin with the app's POSTs and preflights, so a request without one isn't from the app.
+  if (!req.headers.origin || !allowedOrigins.includes(req.headers.origin)) {
+    sendJson(res, 403, { error: 'This origin is not allowed to use the proxy.' });
+    return;
+  }
+  setCorsHeaders(req, res);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const name = req.url?.match(/^\/api\/llm\/(\w+)$/)?.[1];
+  const operation = name && Object.hasOwn(OPERATIONS, name) ? OPERATIONS[name as ProxyOperation] : undefined;
+  if (req.method !== 'POST' || !operation) {
+    sendJson(res, 404, { error: 'Not found.' });
+    return;
+  }
+
+  try {
+    await handleOperation(req, res, operation);
+  } catch (error) {
+    const status = (error as { status?: number }).status || 500;
+    if (status === 500) console.error('Proxy request failed:', error);
+    if (res.headersSent) return;
+    if (status === 413) {
+      sendJson(res, status, { error: (error as Error).message }, { Connection: 'close' });
+      res.once('finish', () => req.destroy()); // The rest of the body is never read
+      return;
+    }
+    sendJson(res, status, { error: (error as Error).message });
+  }
+});
+
+server.listen(port, () => console.log(`AI proxy listening on http://localhost:${port}`));
@@ -0,0 +1,41 @@
+import { RateLimit } from '../services/llm/scheduler';
+
+const IDLE_CLIENT_MS = 10 * 60 * 1000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface ClientRateLimiter {
+  // Takes a token for the client's call and returns 0, or returns how long until one is free without taking it.
+  take: (clientId: string, bucket: string) => number;
+}
+
+// A token bucket per client and bucket. Unlike the browser's scheduler, which queues calls until they may go, the
+// proxy turns excess calls away so one client can't hold up the others.
+export const createClientRateLimiter = (limits: Record<string, RateLimit>): ClientRateLimiter => {
+  const buckets = new Map<string, Bucket>();
+
+  // Idle clients have full buckets again by now, so forgetting them changes nothing.
+  setInterval(() => {
+    const cutoff = Date.now() - IDLE_CLIENT_MS;
+    for (const [key, bucket] of buckets) if (bucket.updatedAt < cutoff) buckets.delete(key);
+  }, IDLE_CLIENT_MS).unref();
+
+  const take = (clientId: string, name: string): number => {
+    const limit = limits[name];
+    if (!limit) return 0;
+    const key = `${clientId}|${name}`;
+    const now = Date.now();
+    const bucket = buckets.get(key) || { tokens: limit.burst, updatedAt: now };
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + ((now - bucket.updatedAt) * limit.requestsPerMinute) / 60000);
+    bucket.updatedAt = now;
+    buckets.set(key, bucket);
+    if (bucket.tokens < 1) return Math.ceil(((1 - bucket.tokens) * 60000) / limit.requestsPerMinute);
+    bucket.tokens -= 1;
+    return 0;
+  };
+
+  return { take };
+};
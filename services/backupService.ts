@@ -0,0 +1,199 @@
+import JSZip from 'jszip';
+import { StudyMaterial, Quiz } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateMaterial, migrateQuiz, withSchemaVersion } from './schemaMigrations';
+import { getImageBlob, isStoredImageRef } from './storageService';
+
+const BACKUP_FORMAT = 'ameena-library-backup';
+const MANIFEST_FILE = 'library.json';
+const ASSET_REF_PREFIX = 'asset:'; // Image fields in the manifest point at files in the archive as "asset:<path>"
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', webp: 'image/webp', gif: 'image/gif', svg: 'image/svg+xml' };
+const extensionForMimeType = (mimeType: string): string =>
+  Object.keys(MIME_TYPES_BY_EXTENSION).find(ext => MIME_TYPES_BY_EXTENSION[ext] === mimeType) || 'bin';
+
+export type ImportConflictMode = 'skip' | 'overwrite' | 'duplicate';
+
+export interface LibraryBackup {
+  exportedAt: string;
+  materials: StudyMaterial[];
+  quizzes: Quiz[];
+  invalidCount: number; // Records in the archive that couldn't be read and were left out
+}
+
+export interface ImportSummary {
+  added: number;
+  overwritten: number;
+  duplicated: number;
+  skipped: number;
+  quizzesImported: number;
+  invalid: number;
+}
+
+export interface ImportPlan {
+  materials: StudyMaterial[]; // Materials to add or replace, by id
+  quizzes: Quiz[]; // Quizzes to add or replace, by id
+  summary: ImportSummary;
+}
+
+const mapMaterialImages = async (material: StudyMaterial, mapUrl: (url: string) => Promise<string | undefined>): Promise<StudyMaterial> => {
+  const map = (url?: string) => (url ? mapUrl(url) : Promise.resolve(url));
+  return {
+    ...material,
+    sourceImageUrl: await map(material.sourceImageUrl),
+    presentationContent: material.presentationContent && {
+      ...material.presentationContent,
+      slides: await Promise.all(material.presentationContent.slides.map(async slide => ({ ...slide, imageUrl: await map(slide.imageUrl) }))),
+    },
+    videoScenes: material.videoScenes && await Promise.all(material.videoScenes.map(async scene => ({ ...scene, imageUrl: await map(scene.imageUrl) }))),
+  };
+};
+
+// Packs the materials, their quiz results and every locally stored image into a single .zip archive.
+export const exportLibrary = async (materials: StudyMaterial[], quizzes: Quiz[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const materialIds = new Set(materials.map(material => material.id));
+  let assetCount = 0;
+
+  const materialRecords = [];
+  for (const material of materials) {
+    const record = await mapMaterialImages(material, async url => {
+      const blob = await getImageBlob(url);
+      if (!blob) return isStoredImageRef(url) ? undefined : url; // Remote images are kept as links
+      const path = `assets/${material.id}/${++assetCount}.${extensionForMimeType(blob.type)}`;
+      zip.file(path, blob, { compression: 'STORE' }); // Images are already compressed
+      return `${ASSET_REF_PREFIX}${path}`;
+    });
+    materialRecords.push(withSchemaVersion(record));
+  }
+
+  zip.file(MANIFEST_FILE, JSON.stringify({
+    format: BACKUP_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    materials: materialRecords,
+    quizzes: quizzes.filter(quiz => materialIds.has(quiz.contentId)).map(withSchemaVersion),
+  }, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion?: number;
+  exportedAt: string;
+  materials: unknown[]; // Each record is checked by its migration
+  quizzes?: unknown[];
+}
+
+const isBackupManifest = (value: unknown): value is BackupManifest => {
+  if (typeof value !== 'object' || value === null) return false;
+  const manifest = value as Record<string, unknown>;
+  return manifest.format === BACKUP_FORMAT
+    && Array.isArray(manifest.materials)
+    && (manifest.quizzes === undefined || Array.isArray(manifest.quizzes))
+    && (manifest.schemaVersion === undefined || typeof manifest.schemaVersion === 'number')
+    && typeof manifest.exportedAt === 'string';
+};
+
+export const readBackup = async (file: Blob): Promise<LibraryBackup> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('This file is not a library backup. Backups are .zip files exported from the Dashboard.');
+  }
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new Error('This archive is not a library backup: it has no library.json.');
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error("The backup's library.json is damaged and can't be read.");
+  }
+  if (!isBackupManifest(manifest)) {
+    throw new Error('This archive is not a library backup.');
+  }
+  if (manifest.schemaVersion !== undefined && manifest.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update the app to import it.');
+  }
+
+  let invalidCount = 0;
+  const materials: StudyMaterial[] = [];
+  for (const raw of manifest.materials) {
+    try {
+      const { record } = migrateMaterial(raw);
+      // Images arrive as data URLs, so every imported material, copies included, gets blobs of its own when saved.
+      // Stored-image refs are never exported and would point at another material's blobs, so they are dropped.
+      materials.push(await mapMaterialImages(record, async url => {
+        if (isStoredImageRef(url)) return undefined;
+        if (!url.startsWith(ASSET_REF_PREFIX)) return url;
+        const path = url.slice(ASSET_REF_PREFIX.length);
+        const asset = zip.file(path);
+        if (!asset) return undefined;
+        const mimeType = MIME_TYPES_BY_EXTENSION[path.split('.').pop() || ''] || 'application/octet-stream';
+        return `data:${mimeType};base64,${await asset.async('base64')}`;
+      }));
+    } catch (error) {
+      console.warn('Skipping unreadable material in backup:', error);
+      invalidCount++;
+    }
+  }
+
+  const quizzes: Quiz[] = [];
+  for (const raw of manifest.quizzes || []) {
+    try {
+      quizzes.push(migrateQuiz(raw).record);
+    } catch (error) {
+      console.warn('Skipping unreadable quiz in backup:', error);
+      invalidCount++;
+    }
+  }
+
+  return { exportedAt: manifest.exportedAt, materials, quizzes, invalidCount };
+};
+
+// Works out what importing the backup changes, resolving materials and quizzes whose id is already in the library.
+export const planImport = (existingMaterials: StudyMaterial[], existingQuizzes: Quiz[], backup: LibraryBackup, mode: ImportConflictMode): ImportPlan => {
+  const summary: ImportSummary = { added: 0, overwritten: 0, duplicated: 0, skipped: 0, quizzesImported: 0, invalid: backup.invalidCount };
+  const existingMaterialIds = new Set(existingMaterials.map(material => material.id));
+  const existingQuizIds = new Set(existingQuizzes.map(quiz => quiz.id));
+  const newIdSuffix = Date.now();
+  const materialIdMap = new Map<string, string>(); // Backup id -> id in the library
+  const materials: StudyMaterial[] = [];
+
+  backup.materials.forEach((material, i) => {
+    if (!existingMaterialIds.has(material.id)) {
+      summary.added++;
+    } else if (mode === 'skip') {
+      summary.skipped++;
+      materialIdMap.set(material.id, material.id);
+      return;
+    } else if (mode === 'overwrite') {
+      summary.overwritten++;
+    } else {
+      const copyId = `content_${newIdSuffix}${i}`;
+      summary.duplicated++;
+      materialIdMap.set(material.id, copyId);
+      materials.push({ ...material, id: copyId, title: `${material.title || 'Untitled'} (copy)` });
+      return;
+    }
+    materialIdMap.set(material.id, material.id);
+    materials.push(material);
+  });
+
+  const quizzes: Quiz[] = [];
+  backup.quizzes.forEach((quiz, i) => {
+    const contentId = materialIdMap.get(quiz.contentId);
+    if (!contentId) return; // Its material wasn't in the backup
+    if (contentId !== quiz.contentId) {
+      quizzes.push({ ...quiz, id: `quiz_${newIdSuffix}${i}`, contentId });
+    } else if (existingQuizIds.has(quiz.id) && mode !== 'overwrite') {
+      return;
+    } else {
+      quizzes.push(quiz);
+    }
+    summary.quizzesImported++;
+  });
+
+  return { materials, quizzes, summary };
+};
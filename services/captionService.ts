@@ -0,0 +1,101 @@
+import { TranscriptSegment } from '../types';
+
+const PARAGRAPH_MAX_SECONDS = 30; // Start a new timestamped paragraph at least this often
+const PARAGRAPH_MAX_CHARS = 600;
+
+// Matches "00:01:02.345" (VTT), "00:01:02,345" (SRT) and "0:01:02.345" (SBV); hours are optional in VTT.
+const TIME_PATTERN = '(?:(\\d+):)?(\\d{1,2}):(\\d{2})[.,](\\d{1,3})';
+const CUE_TIMING_REGEX = new RegExp(`^\\s*${TIME_PATTERN}\\s*(?:-->|,)\\s*${TIME_PATTERN}`);
+
+const toSeconds = (hours: string | undefined, minutes: string, seconds: string, millis: string): number =>
+  Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis.padEnd(3, '0')) / 1000;
+
+const cleanCueText = (line: string): string =>
+  line
+    .replace(/<[^>]+>/g, '') // VTT voice/class/karaoke tags and SRT <i>/<b>
+    .replace(/\{\\[^}]*\}/g, '') // SRT positioning such as {\an8}
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Parses a WebVTT, SubRip (.srt) or YouTube .sbv caption track into timestamped segments.
+export const parseCaptions = (captionText: string): TranscriptSegment[] => {
+  const blocks = captionText.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  const segments: TranscriptSegment[] = [];
+  let previousLine = '';
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING_REGEX.test(line));
+    if (timingIndex === -1) continue; // Header, NOTE, STYLE or REGION blocks
+
+    const match = lines[timingIndex].match(CUE_TIMING_REGEX)!;
+    const start = toSeconds(match[1], match[2], match[3], match[4]);
+    const end = toSeconds(match[5], match[6], match[7], match[8]);
+
+    // Auto-generated YouTube tracks repeat the previous line at the top of each cue, so drop repeats.
+    const textLines = lines.slice(timingIndex + 1).map(cleanCueText).filter(line => line && line !== previousLine);
+    if (textLines.length === 0) continue;
+    previousLine = textLines[textLines.length - 1];
+    segments.push({ start, end: Math.max(start, end), text: textLines.join(' ') });
+  }
+
+  return segments.sort((a, b) => a.start - b.start);
+};
+
+export const formatTimestamp = (totalSeconds: number): string => {
+  const seconds = Math.floor(totalSeconds);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = ('0' + (seconds % 60)).slice(-2);
+  return h > 0 ? `${h}:${('0' + m).slice(-2)}:${s}` : `${m}:${s}`;
+};
+
+export const parseTimestamp = (timestamp: string): number => {
+  return timestamp.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+// Joins caption segments into paragraphs, each prefixed with a "[m:ss]" marker so generated notes
+// and chat answers can cite where in the video something was said.
+export const segmentsToTranscript = (segments: TranscriptSegment[]): string => {
+  const paragraphs: string[] = [];
+  let paragraphStart = 0;
+  let paragraphText = '';
+
+  for (const segment of segments) {
+    if (paragraphText && (segment.start - paragraphStart >= PARAGRAPH_MAX_SECONDS || paragraphText.length >= PARAGRAPH_MAX_CHARS)) {
+      paragraphs.push(`[${formatTimestamp(paragraphStart)}] ${paragraphText}`);
+      paragraphText = '';
+    }
+    if (!paragraphText) paragraphStart = segment.start;
+    paragraphText = paragraphText ? `${paragraphText} ${segment.text}` : segment.text;
+  }
+  if (paragraphText) paragraphs.push(`[${formatTimestamp(paragraphStart)}] ${paragraphText}`);
+
+  return paragraphs.join('\n\n');
+};
+
+export const getYouTubeVideoId = (url: string): string | null => {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.hostname.replace(/^(www\.|m\.)/, '');
+    if (host === 'youtu.be') return parsed.pathname.slice(1).split('/')[0] || null;
+    if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+      if (parsed.searchParams.get('v')) return parsed.searchParams.get('v');
+      const pathMatch = parsed.pathname.match(/^\/(?:embed|shorts|live)\/([^/?]+)/);
+      return pathMatch ? pathMatch[1] : null;
+    }
+  } catch {
+    // Not a URL
+  }
+  return null;
+};
+
+export const getYouTubeUrlAtTime = (url: string, seconds: number): string => {
+  const videoId = getYouTubeVideoId(url);
+  const t = Math.max(0, Math.floor(seconds));
+  return videoId ? `https://www.youtube.com/watch?v=${videoId}&t=${t}s` : url;
+};
@@ -0,0 +1,87 @@
+export interface TextChunk {
+  index: number;
+  text: string;
+  startOffset: number; // Offset of the chunk's first character in the source text
+  endOffset: number;
+}
+
+// Splits text on the largest boundary that keeps pieces under maxChars: paragraphs, then lines,
+// then sentences, then words. A single word longer than maxChars is hard-cut.
+const SPLITTERS = [/\n\s*\n/g, /\n/g, /(?<=[.!?])\s+/g, /\s+/g];
+
+const splitOversized = (text: string, baseOffset: number, maxChars: number, level: number): { text: string; offset: number }[] => {
+  if (text.length <= maxChars) return [{ text, offset: baseOffset }];
+  if (level >= SPLITTERS.length) {
+    const pieces: { text: string; offset: number }[] = [];
+    for (let i = 0; i < text.length; i += maxChars) pieces.push({ text: text.slice(i, i + maxChars), offset: baseOffset + i });
+    return pieces;
+  }
+
+  const pieces: { text: string; offset: number }[] = [];
+  const splitter = new RegExp(SPLITTERS[level].source, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  const pushPiece = (end: number) => {
+    const piece = text.slice(lastIndex, end);
+    if (piece.trim()) pieces.push(...splitOversized(piece, baseOffset + lastIndex, maxChars, level + 1));
+  };
+  while ((match = splitter.exec(text)) !== null) {
+    if (match[0].length === 0) { splitter.lastIndex++; continue; }
+    pushPiece(match.index);
+    lastIndex = match.index + match[0].length;
+  }
+  pushPiece(text.length);
+  return pieces;
+};
+
+export const splitIntoChunks = (text: string, maxChars: number): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  let current: { startOffset: number; endOffset: number } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    chunks.push({ index: chunks.length, text: text.slice(current.startOffset, current.endOffset), ...current });
+    current = null;
+  };
+
+  // Greedily packs the pieces back together so each chunk is as close to maxChars as possible.
+  for (const piece of splitOversized(text, 0, maxChars, 0)) {
+    const pieceEnd = piece.offset + piece.text.length;
+    if (current && pieceEnd - current.startOffset > maxChars) flush();
+    if (!current) current = { startOffset: piece.offset, endOffset: pieceEnd };
+    else current.endOffset = pieceEnd;
+  }
+  flush();
+  return chunks;
+};
+
+// Groups already-generated partial results so each group's combined length stays under maxChars.
+export const groupForReduce = (parts: string[], maxChars: number, separator: string): string[][] => {
+  const groups: string[][] = [];
+  let group: string[] = [];
+  let length = 0;
+  for (const part of parts) {
+    if (group.length > 0 && length + separator.length + part.length > maxChars) {
+      groups.push(group);
+      group = [];
+      length = 0;
+    }
+    group.push(part);
+    length += (group.length > 1 ? separator.length : 0) + part.length;
+  }
+  if (group.length > 0) groups.push(group);
+  return groups;
+};
+
+// Spreads `count` items over `chunkCount` chunks. With fewer items than chunks, evenly spaced chunks get one each.
+export const distributeCount = (count: number, chunkCount: number): number[] => {
+  const counts = new Array(chunkCount).fill(0);
+  if (chunkCount === 0) return counts;
+  if (count < chunkCount) {
+    for (let i = 0; i < count; i++) counts[Math.floor((i + 0.5) * chunkCount / count)] += 1;
+    return counts;
+  }
+  const base = Math.floor(count / chunkCount);
+  for (let i = 0; i < chunkCount; i++) counts[i] = base + (i < count % chunkCount ? 1 : 0);
+  return counts;
+};
@@ -0,0 +1,460 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import JSZip from 'jszip';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { SourceLocation } from '../types';
+import { transcribeImage, ImageTranscription, templateVersionFor, modelSettingsFor } from './geminiService';
+import { AiServiceError, toAiServiceError } from './llm';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+const PAGE_SEPARATOR = '\n\n';
+const MAX_IMAGE_DIMENSION = 2048; // Larger uploads are downscaled before transcription and storage
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DRAWING_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const PRESENTATION_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export interface FileExtractionResult {
+  text: string;
+  sourceLocations?: SourceLocation[];
+  sourceImageUrl?: string;
+  warnings: string[];
+  // Set when the AI wrote the text, under the keys the material stores them with.
+  templateVersions?: Record<string, string>;
+  modelSettings?: Record<string, string>;
+}
+
+const isPdfFile = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+const isPlainTextFile = (file: File) => file.type === 'text/plain' || file.name.toLowerCase().endsWith('.txt');
+const isDocxFile = (file: File) => file.name.toLowerCase().endsWith('.docx');
+const isPptxFile = (file: File) => file.name.toLowerCase().endsWith('.pptx');
+const isLegacyOfficeFile = (file: File) => /\.(doc|ppt)$/i.test(file.name);
+const isImageFile = (file: File) => ['image/jpeg', 'image/png'].includes(file.type) || /\.(jpe?g|png)$/i.test(file.name);
+
+const formatPageList = (pageNumbers: number[]): string => {
+  if (pageNumbers.length <= 10) return pageNumbers.join(', ');
+  return `${pageNumbers.slice(0, 10).join(', ')} and ${pageNumbers.length - 10} more`;
+};
+
+// --- PDF ---
+
+// Rebuilds the lines of a page from pdf.js text items. Items only carry an end-of-line flag,
+// so runs of whitespace are collapsed and blank lines are dropped.
+const pageTextFromItems = (items: TextItem[]): string => {
+  let text = '';
+  for (const item of items) {
+    text += item.str;
+    if (item.hasEOL) text += '\n';
+  }
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+};
+
+export const extractPdfText = async (file: File): Promise<FileExtractionResult> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  let pdf: pdfjsLib.PDFDocumentProxy;
+  try {
+    pdf = await pdfjsLib.getDocument({ data }).promise;
+  } catch (error: any) {
+    console.error("Failed to open PDF:", error);
+    if (error?.name === 'PasswordException') throw new Error(`"${file.name}" is password protected. Please upload an unlocked copy.`);
+    throw new Error(`"${file.name}" could not be read as a PDF. The file may be corrupted.`);
+  }
+
+  try {
+    const sourceLocations: SourceLocation[] = [];
+    const pagesWithoutText: number[] = [];
+    let text = '';
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const pageText = pageTextFromItems(content.items.filter((item): item is TextItem => 'str' in item));
+      page.cleanup();
+
+      if (!pageText) {
+        pagesWithoutText.push(pageNumber);
+        continue;
+      }
+      if (text) text += PAGE_SEPARATOR;
+      const startOffset = text.length;
+      text += pageText;
+      sourceLocations.push({ kind: 'page', index: pageNumber, startOffset, endOffset: text.length });
+    }
+
+    const warnings: string[] = [];
+    if (!text) {
+      warnings.push(`"${file.name}" has no text layer. It looks like a scanned document, so there is no text to study from.`);
+    } else if (pagesWithoutText.length > 0) {
+      warnings.push(`Page${pagesWithoutText.length > 1 ? 's' : ''} ${formatPageList(pagesWithoutText)} of "${file.name}" had no text layer and ${pagesWithoutText.length > 1 ? 'were' : 'was'} skipped.`);
+    }
+
+    return { text, sourceLocations, warnings };
+  } finally {
+    pdf.destroy();
+  }
+};
+
+// --- Office Open XML (DOCX / PPTX) ---
+
+const childElements = (parent: Element, localName?: string): Element[] =>
+  Array.from(parent.children).filter(el => !localName || el.localName === localName);
+
+const firstChild = (parent: Element | undefined, localName: string): Element | undefined =>
+  parent ? childElements(parent, localName)[0] : undefined;
+
+const readXmlPart = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const part = zip.file(path);
+  if (!part) return null;
+  const doc = new DOMParser().parseFromString(await part.async('string'), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    console.warn(`Could not parse "${path}" in the uploaded document.`);
+    return null;
+  }
+  return doc;
+};
+
+// Resolves a relationship target against the folder of the part that owns the .rels file.
+const resolvePartPath = (baseFolder: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const segments = baseFolder ? baseFolder.split('/') : [];
+  for (const segment of target.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+};
+
+const readRelationships = async (zip: JSZip, partPath: string): Promise<Map<string, { type: string; target: string }>> => {
+  const slash = partPath.lastIndexOf('/');
+  const folder = slash >= 0 ? partPath.slice(0, slash) : '';
+  const fileName = partPath.slice(slash + 1);
+  const rels = await readXmlPart(zip, `${folder ? `${folder}/` : ''}_rels/${fileName}.rels`);
+  const relationships = new Map<string, { type: string; target: string }>();
+  if (!rels) return relationships;
+  for (const rel of Array.from(rels.getElementsByTagName('Relationship'))) {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (id && target && rel.getAttribute('TargetMode') !== 'External') {
+      relationships.set(id, { type: rel.getAttribute('Type') || '', target: resolvePartPath(folder, target) });
+    }
+  }
+  return relationships;
+};
+
+const toMarkdownTable = (rows: string[][]): string => {
+  const width = Math.max(...rows.map(row => row.length));
+  const formatRow = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => (row[i] || '').replace(/\|/g, '\\|')).join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [formatRow(header), `| ${Array(width).fill('---').join(' | ')} |`, ...body.map(formatRow)].join('\n');
+};
+
+const collapseWhitespace = (text: string) => text.replace(/[ \t\u00a0]+/g, ' ').trim();
+
+// DOCX
+
+interface DocxContext {
+  headingLevels: Map<string, number>; // paragraph style id -> heading level
+  numberFormats: Map<string, string[]>; // numId -> numFmt per indent level
+  listCounters: Map<string, number[]>; // numId -> running counters per indent level
+}
+
+const readDocxHeadingLevels = (styles: Document | null): Map<string, number> => {
+  const levels = new Map<string, number>();
+  if (!styles) return levels;
+  for (const style of Array.from(styles.getElementsByTagNameNS(WORD_NS, 'style'))) {
+    const styleId = style.getAttributeNS(WORD_NS, 'styleId');
+    const name = firstChild(style, 'name')?.getAttributeNS(WORD_NS, 'val')?.toLowerCase() || '';
+    if (!styleId) continue;
+    const headingMatch = name.match(/^heading\s*(\d)$/);
+    if (name === 'title') levels.set(styleId, 1);
+    else if (headingMatch) levels.set(styleId, Math.min(6, Number(headingMatch[1])));
+  }
+  return levels;
+};
+
+const readDocxNumberFormats = (numbering: Document | null): Map<string, string[]> => {
+  const formats = new Map<string, string[]>();
+  if (!numbering) return formats;
+  const abstractFormats = new Map<string, string[]>();
+  for (const abstractNum of Array.from(numbering.getElementsByTagNameNS(WORD_NS, 'abstractNum'))) {
+    const levelFormats: string[] = [];
+    for (const lvl of childElements(abstractNum, 'lvl')) {
+      const ilvl = Number(lvl.getAttributeNS(WORD_NS, 'ilvl') || 0);
+      levelFormats[ilvl] = firstChild(lvl, 'numFmt')?.getAttributeNS(WORD_NS, 'val') || 'bullet';
+    }
+    abstractFormats.set(abstractNum.getAttributeNS(WORD_NS, 'abstractNumId') || '', levelFormats);
+  }
+  for (const num of Array.from(numbering.getElementsByTagNameNS(WORD_NS, 'num'))) {
+    const abstractId = firstChild(num, 'abstractNumId')?.getAttributeNS(WORD_NS, 'val') || '';
+    formats.set(num.getAttributeNS(WORD_NS, 'numId') || '', abstractFormats.get(abstractId) || []);
+  }
+  return formats;
+};
+
+const docxRunText = (el: Element): string => {
+  let text = '';
+  for (const child of childElements(el)) {
+    switch (child.localName) {
+      case 't': text += child.textContent || ''; break;
+      case 'tab': text += '\t'; break;
+      case 'br': case 'cr': text += '\n'; break;
+      case 'pPr': case 'rPr': case 'instrText': case 'delText': break;
+      default: text += docxRunText(child);
+    }
+  }
+  return text;
+};
+
+const docxParagraph = (paragraph: Element, context: DocxContext): string => {
+  const text = docxRunText(paragraph).split('\n').map(collapseWhitespace).filter(Boolean).join('\n');
+  if (!text) return '';
+
+  const pPr = firstChild(paragraph, 'pPr');
+  const styleId = firstChild(pPr, 'pStyle')?.getAttributeNS(WORD_NS, 'val') || '';
+  const outlineLevel = firstChild(pPr, 'outlineLvl')?.getAttributeNS(WORD_NS, 'val');
+  const headingLevel = context.headingLevels.get(styleId) ?? (outlineLevel !== null && outlineLevel !== undefined ? Math.min(6, Number(outlineLevel) + 1) : undefined);
+  if (headingLevel) return `${'#'.repeat(headingLevel)} ${text.replace(/\n/g, ' ')}`;
+
+  const numPr = firstChild(pPr, 'numPr');
+  const numId = firstChild(numPr, 'numId')?.getAttributeNS(WORD_NS, 'val');
+  if (!numId || numId === '0') return text;
+
+  const level = Number(firstChild(numPr, 'ilvl')?.getAttributeNS(WORD_NS, 'val') || 0);
+  const format = context.numberFormats.get(numId)?.[level] || 'bullet';
+  const counters = context.listCounters.get(numId) || [];
+  counters[level] = (counters[level] || 0) + 1;
+  counters.length = level + 1; // Restart numbering of deeper levels
+  context.listCounters.set(numId, counters);
+
+  const marker = format === 'bullet' || format === 'none' ? '-' : `${counters[level]}.`;
+  return `${'  '.repeat(level)}${marker} ${text.replace(/\n/g, ' ')}`;
+};
+
+const docxTable = (table: Element, context: DocxContext): string => {
+  const rows = childElements(table, 'tr').map(row =>
+    childElements(row, 'tc').map(cell =>
+      childElements(cell, 'p').map(p => docxParagraph(p, context)).filter(Boolean).join(' ')
+    )
+  ).filter(row => row.some(cell => cell));
+  return rows.length > 0 ? toMarkdownTable(rows) : '';
+};
+
+const docxBlocks = (container: Element, context: DocxContext): string[] => {
+  const blocks: string[] = [];
+  for (const child of childElements(container)) {
+    if (child.localName === 'p') blocks.push(docxParagraph(child, context));
+    else if (child.localName === 'tbl') blocks.push(docxTable(child, context));
+    else if (child.localName === 'sdt') blocks.push(...docxBlocks(firstChild(child, 'sdtContent') || child, context));
+  }
+  return blocks.filter(Boolean);
+};
+
+export const extractDocxText = async (file: File): Promise<FileExtractionResult> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const documentXml = await readXmlPart(zip, 'word/document.xml');
+  const body = documentXml?.getElementsByTagNameNS(WORD_NS, 'body')[0];
+  if (!body) throw new Error(`"${file.name}" does not look like a valid Word document.`);
+
+  const context: DocxContext = {
+    headingLevels: readDocxHeadingLevels(await readXmlPart(zip, 'word/styles.xml')),
+    numberFormats: readDocxNumberFormats(await readXmlPart(zip, 'word/numbering.xml')),
+    listCounters: new Map(),
+  };
+
+  // Consecutive list items stay on adjacent lines; every other block is separated by a blank line.
+  const isListItem = (block: string) => /^\s*(-|\d+\.) /.test(block);
+  const text = docxBlocks(body, context).reduce((acc, block, i, blocks) => {
+    if (i === 0) return block;
+    return acc + (isListItem(block) && isListItem(blocks[i - 1]) ? '\n' : '\n\n') + block;
+  }, '');
+
+  const warnings = text ? [] : [`"${file.name}" does not contain any text.`];
+  return { text, warnings };
+};
+
+// PPTX
+
+const pptxParagraphs = (txBody: Element | undefined): { text: string; level: number; hasBullet: boolean; noBullet: boolean }[] =>
+  (txBody ? childElements(txBody, 'p') : []).map(p => {
+    const pPr = firstChild(p, 'pPr');
+    const text = childElements(p).map(child => {
+      if (child.localName === 'r' || child.localName === 'fld') return firstChild(child, 't')?.textContent || '';
+      if (child.localName === 'br') return ' ';
+      return '';
+    }).join('');
+    return {
+      text: collapseWhitespace(text),
+      level: Number(pPr?.getAttribute('lvl') || 0),
+      hasBullet: !!(firstChild(pPr, 'buChar') || firstChild(pPr, 'buAutoNum')),
+      noBullet: !!firstChild(pPr, 'buNone'),
+    };
+  }).filter(p => p.text);
+
+const placeholderType = (shape: Element): string | null => {
+  const nvSpPr = childElements(shape).find(el => el.localName.startsWith('nv'));
+  const ph = firstChild(firstChild(nvSpPr, 'nvPr'), 'ph');
+  if (!ph) return null;
+  return ph.getAttribute('type') || 'body'; // A placeholder without a type is a content (body) placeholder
+};
+
+const pptxTable = (graphicFrame: Element): string => {
+  const table = graphicFrame.getElementsByTagNameNS(DRAWING_NS, 'tbl')[0];
+  if (!table) return '';
+  const rows = childElements(table, 'tr').map(row =>
+    childElements(row, 'tc').map(cell => pptxParagraphs(firstChild(cell, 'txBody')).map(p => p.text).join(' '))
+  ).filter(row => row.some(cell => cell));
+  return rows.length > 0 ? toMarkdownTable(rows) : '';
+};
+
+const IGNORED_PLACEHOLDERS = new Set(['sldNum', 'dt', 'ftr', 'hdr']);
+
+const pptxShapeTree = (tree: Element, titles: string[], blocks: string[]) => {
+  for (const shape of childElements(tree)) {
+    if (shape.localName === 'grpSp') {
+      pptxShapeTree(shape, titles, blocks);
+    } else if (shape.localName === 'graphicFrame') {
+      const table = pptxTable(shape);
+      if (table) blocks.push(table);
+    } else if (shape.localName === 'sp') {
+      const type = placeholderType(shape);
+      if (type && IGNORED_PLACEHOLDERS.has(type)) continue;
+      const paragraphs = pptxParagraphs(firstChild(shape, 'txBody'));
+      if (paragraphs.length === 0) continue;
+      if (type === 'title' || type === 'ctrTitle') {
+        titles.push(paragraphs.map(p => p.text).join(' '));
+        continue;
+      }
+      const isBody = type === 'body' || type === 'obj';
+      blocks.push(paragraphs.map(p =>
+        (isBody && !p.noBullet) || p.hasBullet ? `${'  '.repeat(p.level)}- ${p.text}` : p.text
+      ).join('\n'));
+    }
+  }
+};
+
+const pptxNotes = async (zip: JSZip, notesPath: string): Promise<string> => {
+  const notes = await readXmlPart(zip, notesPath);
+  const tree = notes?.getElementsByTagNameNS(PRESENTATION_NS, 'spTree')[0];
+  if (!tree) return '';
+  return Array.from(tree.getElementsByTagNameNS(PRESENTATION_NS, 'sp'))
+    .filter(shape => placeholderType(shape) === 'body')
+    .flatMap(shape => pptxParagraphs(firstChild(shape, 'txBody')).map(p => p.text))
+    .join('\n');
+};
+
+export const extractPptxText = async (file: File): Promise<FileExtractionResult> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const presentation = await readXmlPart(zip, 'ppt/presentation.xml');
+  if (!presentation) throw new Error(`"${file.name}" does not look like a valid PowerPoint presentation.`);
+
+  const presentationRels = await readRelationships(zip, 'ppt/presentation.xml');
+  const slideIds = Array.from(presentation.getElementsByTagNameNS(PRESENTATION_NS, 'sldId'));
+
+  const sourceLocations: SourceLocation[] = [];
+  const slidesWithoutText: number[] = [];
+  let text = '';
+
+  for (let i = 0; i < slideIds.length; i++) {
+    const slideNumber = i + 1;
+    const slidePath = presentationRels.get(slideIds[i].getAttributeNS(RELATIONSHIPS_NS, 'id') || '')?.target;
+    const slide = slidePath ? await readXmlPart(zip, slidePath) : null;
+    const tree = slide?.getElementsByTagNameNS(PRESENTATION_NS, 'spTree')[0];
+    if (!slidePath || !tree) continue;
+
+    const titles: string[] = [];
+    const blocks: string[] = [];
+    pptxShapeTree(tree, titles, blocks);
+
+    const notesRel = Array.from((await readRelationships(zip, slidePath)).values()).find(rel => rel.type.endsWith('/notesSlide'));
+    const notes = notesRel ? await pptxNotes(zip, notesRel.target) : '';
+    if (notes) blocks.push(`Speaker notes:\n${notes}`);
+
+    if (titles.length === 0 && blocks.length === 0) {
+      slidesWithoutText.push(slideNumber);
+      continue;
+    }
+    const heading = `## Slide ${slideNumber}${titles.length > 0 ? `: ${titles.join(' - ')}` : ''}`;
+    if (text) text += PAGE_SEPARATOR;
+    const startOffset = text.length;
+    text += [heading, ...blocks].join('\n\n');
+    sourceLocations.push({ kind: 'slide', index: slideNumber, startOffset, endOffset: text.length });
+  }
+
+  const warnings: string[] = [];
+  if (!text) {
+    warnings.push(`"${file.name}" does not contain any slide text or speaker notes.`);
+  } else if (slidesWithoutText.length > 0) {
+    warnings.push(`Slide${slidesWithoutText.length > 1 ? 's' : ''} ${formatPageList(slidesWithoutText)} of "${file.name}" had no text and ${slidesWithoutText.length > 1 ? 'were' : 'was'} skipped.`);
+  }
+  return { text, sourceLocations, warnings };
+};
+
+// --- Images ---
+
+// Re-encodes the image as JPEG, downscaling it so phone photos stay a reasonable size to send and store.
+const readImageAsDataUrl = async (file: File): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported in this browser.');
+    context.fillStyle = '#FFFFFF'; // Transparent PNG areas would otherwise turn black
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.9);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const extractImageText = async (file: File): Promise<FileExtractionResult> => {
+  let sourceImageUrl: string;
+  try {
+    sourceImageUrl = await readImageAsDataUrl(file);
+  } catch (error) {
+    console.error("Failed to decode image:", error);
+    throw new Error(`"${file.name}" could not be opened as an image.`);
+  }
+
+  const [header, base64Data] = sourceImageUrl.split(',');
+  const mimeType = header.match(/^data:(.*?);base64$/)?.[1] || 'image/jpeg';
+  const templateVersion = templateVersionFor('transcription');
+  const modelSettings = modelSettingsFor('transcription');
+  let transcription: ImageTranscription;
+  try {
+    transcription = await transcribeImage(base64Data, mimeType);
+  } catch (error) {
+    console.error("Image transcription failed:", error);
+    const aiError = toAiServiceError(error);
+    throw new AiServiceError(aiError.kind, `"${file.name}" could not be transcribed. ${aiError.message}`, { cause: error });
+  }
+
+  const sections = [transcription.text.trim()].filter(Boolean);
+  for (const diagram of transcription.diagrams) {
+    sections.push(`## Diagram: ${diagram.title.trim()}\n\n${diagram.description.trim()}`);
+  }
+  const text = sections.join('\n\n');
+  const warnings = text ? [] : [`No readable text or diagrams were found in "${file.name}".`];
+  return { text, sourceImageUrl, warnings, templateVersions: { transcription: templateVersion }, modelSettings: { transcription: modelSettings } };
+};
+
+export const extractTextFromFile = async (file: File): Promise<FileExtractionResult> => {
+  if (isPdfFile(file)) return extractPdfText(file);
+  if (isPlainTextFile(file)) return { text: (await file.text()).trim(), warnings: [] };
+  if (isDocxFile(file)) return extractDocxText(file);
+  if (isPptxFile(file)) return extractPptxText(file);
+  if (isImageFile(file)) return extractImageText(file);
+  if (isLegacyOfficeFile(file)) {
+    throw new Error(`"${file.name}" uses the legacy Office format. Please save it as .docx or .pptx and upload it again.`);
+  }
+  throw new Error(`"${file.name}" is not a supported file type.`);
+};
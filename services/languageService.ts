@@ -0,0 +1,26 @@
+import { OUTPUT_LANGUAGES, DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGE_STORAGE_KEY } from '../constants';
+import { StudyMaterial } from '../types';
+
+export const getGlobalOutputLanguage = (): string =>
+  localStorage.getItem(OUTPUT_LANGUAGE_STORAGE_KEY) || DEFAULT_OUTPUT_LANGUAGE;
+
+export const saveGlobalOutputLanguage = (code: string) => {
+  localStorage.setItem(OUTPUT_LANGUAGE_STORAGE_KEY, code);
+};
+
+// A material's own choice wins over the app-wide one.
+export const outputLanguageOf = (material?: Pick<StudyMaterial, 'outputLanguage'> | null): string =>
+  material?.outputLanguage || getGlobalOutputLanguage();
+
+export const languageName = (code: string): string =>
+  OUTPUT_LANGUAGES.find(language => language.code === code)?.name || code;
+
+export const textDirection = (code: string): 'rtl' | 'ltr' =>
+  OUTPUT_LANGUAGES.find(language => language.code === code)?.rtl ? 'rtl' : 'ltr';
+
+// Voices that speak the language, matched on the language part of their tag ("ar" matches "ar-SA"). Voices that
+// run on the device come first; network voices such as Google's stop working offline.
+export const voicesForLanguage = (voices: SpeechSynthesisVoice[], code: string): SpeechSynthesisVoice[] =>
+  voices
+    .filter(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === code.toLowerCase())
+    .sort((a, b) => Number(b.localService) - Number(a.localService));
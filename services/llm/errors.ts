@@ -0,0 +1,59 @@
+import { LlmHttpError } from './types';
+
+export type AiErrorKind =
+  | 'missing-key'
+  | 'rate-limit'
+  | 'safety-block'
+  | 'invalid-response'
+  | 'content-too-short'
+  | 'budget-exceeded'
+  | 'network'
+  | 'cancelled'
+  | 'unknown';
+
+const DEFAULT_MESSAGES: Record<AiErrorKind, string> = {
+  'missing-key': 'The AI service rejected the request because the API key is missing or invalid.',
+  'rate-limit': 'The AI service is busy or the usage quota has been reached.',
+  'safety-block': "The AI declined to answer because the request tripped its safety filters.",
+  'invalid-response': 'The AI returned a response the app could not read.',
+  'content-too-short': 'There is not enough content to work with.',
+  'budget-exceeded': "This month's AI budget has been used up.",
+  'network': 'The AI service could not be reached.',
+  'cancelled': 'The request was cancelled.',
+  'unknown': 'Something went wrong while talking to the AI service.',
+};
+
+// The only error the AI service layer throws, so callers can react to the kind of failure instead of its wording.
+export class AiServiceError extends Error {
+  kind: AiErrorKind;
+  retryAfterMs?: number; // How long the service asked us to wait, when it said
+
+  constructor(kind: AiErrorKind, message: string = DEFAULT_MESSAGES[kind], options?: { cause?: unknown; retryAfterMs?: number }) {
+    super(message, options);
+    this.name = 'AiServiceError';
+    this.kind = kind;
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+}
+
+const MISSING_KEY_PATTERN = /API key|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i;
+const RATE_LIMIT_PATTERN = /\b(429|503)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit/i;
+const NETWORK_PATTERN = /Failed to fetch|NetworkError|fetch failed|Load failed|ECONNREFUSED|ENOTFOUND|ETIMEDOUT/i;
+const RETRY_DELAY_PATTERN = /"retryDelay":\s*"(\d+(?:\.\d+)?)s"/; // Gemini puts its hint in the error details
+
+// Classifies whatever a provider or fetch threw. Providers don't share error types, so this goes by HTTP status
+// where there is one and by the well-known phrases in the message otherwise.
+export const toAiServiceError = (error: unknown): AiServiceError => {
+  if (error instanceof AiServiceError) return error;
+  if ((error as { name?: string } | null)?.name === 'AbortError') return new AiServiceError('cancelled', undefined, { cause: error });
+
+  const status = error instanceof LlmHttpError ? error.status : (error as { status?: unknown } | null)?.status;
+  const text = `${(error as { message?: string } | null)?.message || ''} ${JSON.stringify(error) ?? ''}`;
+  let kind: AiErrorKind = 'unknown';
+  if (status === 401 || status === 403 || MISSING_KEY_PATTERN.test(text)) kind = 'missing-key';
+  else if (status === 429 || status === 503 || RATE_LIMIT_PATTERN.test(text)) kind = 'rate-limit';
+  else if (error instanceof TypeError || NETWORK_PATTERN.test(text)) kind = 'network';
+  const retryDelay = text.match(RETRY_DELAY_PATTERN)?.[1];
+  const retryAfterMs = error instanceof LlmHttpError ? error.retryAfterMs : retryDelay ? Number(retryDelay) * 1000 : undefined;
+  return new AiServiceError(kind, undefined, { cause: error, retryAfterMs });
+};
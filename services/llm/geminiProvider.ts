@@ -0,0 +1,173 @@
+import { GoogleGenAI, GenerateContentConfig, GenerateContentResponse, Schema, Type } from "@google/genai";
+import { GEMINI_API_PRO_TEXT_MODEL, GEMINI_API_PRO_IMAGE_MODEL, GEMINI_API_EMBEDDING_MODEL } from '../../constants';
+import { GroundingSource } from '../../types';
+import { LlmProvider, JsonSchema, Prompt, GenerationOptions, ModelParameters, TextStreamHandler, ChatRequest } from './types';
+import { AiServiceError } from './errors';
+import { reportUsage, estimateTokens } from './usage';
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  ...(schema.description && { description: schema.description }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+  }),
+});
+
+const toContents = (prompt: Prompt) => (typeof prompt === 'string' ? prompt : { parts: prompt });
+
+const toConfig = (options?: GenerationOptions): GenerateContentConfig => ({
+  temperature: options?.temperature,
+  topP: options?.topP,
+  topK: options?.topK,
+  systemInstruction: options?.systemInstruction,
+  abortSignal: options?.signal,
+});
+
+const toGroundingSources = (response: GenerateContentResponse): GroundingSource[] | undefined =>
+  response.candidates?.[0]?.groundingMetadata?.groundingChunks
+    ?.filter(chunk => chunk.web)
+    .map(chunk => ({ uri: chunk.web!.uri || '', title: chunk.web!.title || chunk.web!.uri || '' }));
+
+const BLOCKED_FINISH_REASONS = new Set<string>(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
+// Gemini reports blocked prompts and answers inside an otherwise successful response, not as errors.
+const checked = <T extends GenerateContentResponse>(response: T): T => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+    throw new AiServiceError('safety-block');
+  }
+  return response;
+};
+
+const textModelOf = (parameters?: ModelParameters) => parameters?.model || GEMINI_API_PRO_TEXT_MODEL;
+
+const reportResponseUsage = (response: GenerateContentResponse | undefined, model: string, signal?: AbortSignal) => {
+  const usage = response?.usageMetadata;
+  if (!usage) return;
+  reportUsage({ model, inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 }, signal);
+};
+
+// Accumulates a response stream, reporting the text so far after every chunk.
+const readStream = async (
+  start: () => Promise<AsyncGenerator<GenerateContentResponse>>,
+  model: string,
+  onText: TextStreamHandler,
+  signal?: AbortSignal,
+  onChunk?: (response: GenerateContentResponse) => void
+): Promise<string> => {
+  let text = '';
+  let last: GenerateContentResponse | undefined; // Usage counts are cumulative, so the last chunk's are the total
+  try {
+    for await (const response of await start()) {
+      last = response;
+      onChunk?.(checked(response));
+      if (!response.text) continue;
+      text += response.text;
+      onText(text);
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+  } finally {
+    reportResponseUsage(last, model, signal);
+  }
+  return text;
+};
+
+export const createGeminiProvider = (apiKey: string): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const createChat = ({ systemInstruction, history, temperature, topP, topK, ...request }: ChatRequest) => ai.chats.create({
+    model: textModelOf(request),
+    config: { systemInstruction, temperature, topP, topK },
+    history: history.map(turn => ({ role: turn.role === 'user' ? 'user' : 'model', parts: [{ text: turn.text }] })),
+  });
+
+  return {
+    id: 'gemini',
+    name: 'Google Gemini',
+    model: GEMINI_API_PRO_TEXT_MODEL,
+    imageModel: GEMINI_API_PRO_IMAGE_MODEL,
+    embeddingModel: GEMINI_API_EMBEDDING_MODEL,
+    supportsWebSearch: true,
+
+    generateText: async (prompt, options) => {
+      const response = await ai.models.generateContent({ model: textModelOf(options), contents: toContents(prompt), config: toConfig(options) });
+      reportResponseUsage(response, textModelOf(options), options?.signal);
+      return checked(response).text || '';
+    },
+
+    generateJson: async (prompt, schema, options) => {
+      const response = await ai.models.generateContent({
+        model: textModelOf(options),
+        contents: toContents(prompt),
+        config: { ...toConfig(options), responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema) },
+      });
+      reportResponseUsage(response, textModelOf(options), options?.signal);
+      return checked(response).text || '';
+    },
+
+    chat: async request => {
+      const { message, useWebSearch, signal } = request;
+      const response = await createChat(request).sendMessage({
+        message,
+        config: { ...(useWebSearch && { tools: [{ googleSearch: {} }] }), abortSignal: signal },
+      });
+      reportResponseUsage(response, textModelOf(request), signal);
+      checked(response);
+      return { text: response.text || '', groundingSources: useWebSearch ? toGroundingSources(response) : undefined };
+    },
+
+    streamText: (prompt, options, onText) => readStream(
+      () => ai.models.generateContentStream({ model: textModelOf(options), contents: toContents(prompt), config: toConfig(options) }),
+      textModelOf(options),
+      onText,
+      options?.signal
+    ),
+
+    streamChat: async (request, onText) => {
+      const { message, useWebSearch, signal } = request;
+      let groundingSources: GroundingSource[] | undefined = undefined;
+      const text = await readStream(
+        () => createChat(request).sendMessageStream({
+          message,
+          config: { ...(useWebSearch && { tools: [{ googleSearch: {} }] }), abortSignal: signal },
+        }),
+        textModelOf(request),
+        onText,
+        signal,
+        response => { if (useWebSearch) groundingSources = toGroundingSources(response) || groundingSources; }
+      );
+      return { text, groundingSources };
+    },
+
+    generateImage: async (prompt, aspectRatio, signal, model = GEMINI_API_PRO_IMAGE_MODEL) => {
+      const response = await ai.models.generateImages({
+        model,
+        prompt,
+        config: { numberOfImages: 1, outputMimeType: 'image/jpeg', aspectRatio, abortSignal: signal },
+      });
+      reportUsage({ model, images: response.generatedImages?.length || 0 }, signal);
+      const image = response.generatedImages?.[0]?.image;
+      return image?.imageBytes ? { mimeType: image.mimeType || 'image/jpeg', data: image.imageBytes } : null;
+    },
+
+    embed: async (texts, taskType, signal) => {
+      const response = await ai.models.embedContent({ model: GEMINI_API_EMBEDDING_MODEL, contents: texts, config: { taskType, abortSignal: signal } });
+      reportUsage({ model: GEMINI_API_EMBEDDING_MODEL, inputTokens: estimateTokens(texts.join('')) }, signal); // Embedding responses carry no token count
+      const vectors = response.embeddings?.map(embedding => embedding.values || []) || [];
+      return vectors.length === texts.length && vectors.every(v => v.length > 0) ? vectors : null;
+    },
+  };
+};
@@ -0,0 +1,77 @@
+import { LLM_MAX_CONCURRENT_REQUESTS, LLM_RATE_LIMITS, LLM_MAX_ATTEMPTS } from '../../constants';
+import { LlmProvider, LlmProviderId } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createProxyProvider } from './proxyProvider';
+import { createUnconfiguredProvider } from './unconfiguredProvider';
+import { createRequestScheduler, withScheduling } from './scheduler';
+
+export * from './types';
+export * from './errors';
+export * from './usage';
+
+const PROVIDER_IDS: LlmProviderId[] = ['gemini', 'openai-compatible', 'proxy', 'mock'];
+
+// LLM_PROVIDER picks the provider explicitly. Without it, Gemini is used when a key is set and the
+// offline mock otherwise, so the app stays usable (in demo mode) with no configuration at all. A provider that is
+// asked for but misconfigured never falls back to the mock; its calls fail with the problem instead.
+const configuredProvider = (requested?: LlmProviderId): LlmProvider => {
+  if (requested === 'mock') return createMockProvider();
+  if (requested === 'proxy') {
+    if (!process.env.LLM_PROXY_URL) return createUnconfiguredProvider(requested, 'LLM_PROXY_URL must be set to use the proxy.');
+    return createProxyProvider(process.env.LLM_PROXY_URL);
+  }
+  if (requested === 'openai-compatible') {
+    if (!process.env.OPENAI_BASE_URL || !process.env.OPENAI_MODEL) {
+      return createUnconfiguredProvider(requested, 'OPENAI_BASE_URL and OPENAI_MODEL must be set to use the OpenAI-compatible provider.');
+    }
+    return createOpenAiCompatibleProvider({
+      baseUrl: process.env.OPENAI_BASE_URL,
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.OPENAI_MODEL,
+      imageModel: process.env.OPENAI_IMAGE_MODEL,
+      embeddingModel: process.env.OPENAI_EMBEDDING_MODEL,
+    });
+  }
+  if (requested && !PROVIDER_IDS.includes(requested)) {
+    return createUnconfiguredProvider('gemini', `LLM_PROVIDER "${requested}" is not one of ${PROVIDER_IDS.join(', ')}.`);
+  }
+  if (process.env.API_KEY) return createGeminiProvider(process.env.API_KEY);
+  if (requested === 'gemini') return createUnconfiguredProvider(requested, 'GEMINI_API_KEY is not set.');
+  return createMockProvider();
+};
+
+const createProvider = (): LlmProvider => {
+  const requested = process.env.LLM_PROVIDER as LlmProviderId | undefined;
+  try {
+    return configuredProvider(requested);
+  } catch (error) {
+    console.error("Failed to initialize the configured AI provider.", error);
+    return createUnconfiguredProvider(requested && PROVIDER_IDS.includes(requested) ? requested : 'gemini', `The AI provider could not be set up: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// One scheduler for the whole app, so every caller shares the same pacing. The offline provider has no quota, so
+// it only gets the concurrency limit.
+const schedule = (next: LlmProvider): LlmProvider => withScheduling(next, createRequestScheduler({
+  maxConcurrent: LLM_MAX_CONCURRENT_REQUESTS,
+  rateLimits: next.id === 'mock' ? {} : LLM_RATE_LIMITS,
+  maxAttempts: LLM_MAX_ATTEMPTS,
+  initialBackoffMs: 1000,
+  maxBackoffMs: 60000,
+}));
+
+let provider: LlmProvider | null = null;
+
+export const getLlmProvider = (): LlmProvider => {
+  if (!provider) provider = schedule(createProvider());
+  return provider;
+};
+
+// For tests and demos that need to swap providers at runtime.
+export const setLlmProvider = (next: LlmProvider) => {
+  provider = schedule(next);
+};
+
+export const isDemoMode = (): boolean => getLlmProvider().id === 'mock';
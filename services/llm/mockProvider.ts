@@ -0,0 +1,194 @@
+import { LlmProvider, JsonSchema, Prompt, TextStreamHandler } from './types';
+
+// A deterministic offline provider for demos and tests. It never calls a network: answers are assembled from
+// sentences of the prompt's own material, so the same prompt always produces the same output.
+
+const EMBEDDING_DIMENSIONS = 256;
+const DEFAULT_ARRAY_LENGTH = 3;
+const STREAM_WORD_DELAY_MS = 25;
+
+const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const promptText = (prompt: Prompt): string =>
+  typeof prompt === 'string' ? prompt : prompt.map(part => ('text' in part ? part.text : '')).join('\n');
+
+// The material is whatever follows the last "Label:" line, which is how every app prompt ends.
+const extractMaterial = (text: string): string => {
+  const matches = [...text.matchAll(/^[A-Z][\w ()-]*:\s*$/gm)];
+  const last = matches[matches.length - 1];
+  return last ? text.slice((last.index ?? 0) + last[0].length).trim() : text;
+};
+
+const extractSentences = (text: string): string[] => {
+  const sentences = text
+    .replace(/^#+\s*/gm, '')
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.replace(/^[-*\d.)\s]+/, '').trim())
+    .filter(sentence => sentence.length > 20);
+  return sentences.length > 0 ? sentences : ['This is a placeholder answer from the offline demo provider.'];
+};
+
+const pick = <T,>(items: T[], index: number): T => items[index % items.length];
+
+const shortPhrase = (sentence: string, words: number) => sentence.split(/\s+/).slice(0, words).join(' ').replace(/[,.;:!?]+$/, '');
+
+const mockText = (prompt: Prompt): string => {
+  const text = promptText(prompt);
+  const sentences = extractSentences(extractMaterial(text));
+  if (/graph TD|mermaid/i.test(text)) {
+    const nodes = sentences.slice(0, 4).map((sentence, i) => `  N${i}["${shortPhrase(sentence, 4).replace(/"/g, "'")}"]`);
+    const edges = nodes.slice(1).map((_, i) => `  N${i} --> N${i + 1}`);
+    return ['```mermaid', 'graph TD', ...nodes, ...edges, '```'].join('\n');
+  }
+  const detailed = /comprehensive|detailed/i.test(text);
+  const selected = sentences.slice(0, detailed ? 10 : 5);
+  if (/bullet|notes|list/i.test(text)) return selected.map(sentence => `- ${sentence}`).join('\n');
+  return selected.join(' ');
+};
+
+interface MockJsonContext {
+  sentences: string[];
+  requestedCount: number;
+  cursor: number;
+}
+
+// Lists inside a generated item, which get a fixed length instead of the count the prompt asks for.
+const NESTED_LIST_KEYS = new Set(['options', 'correctAnswers', 'pairs']);
+
+// Keeps generated quiz questions answerable by giving each type the answer shape it is graded on.
+const fitQuizQuestion = (value: Record<string, unknown>, context: MockJsonContext, index: number) => {
+  const options = value.options as string[];
+  const phrases: string[] = [];
+  for (let i = 0; i < 4; i++) {
+    const phrase = shortPhrase(pick(context.sentences, index + i), 4);
+    phrases.push(phrases.includes(phrase) ? `${phrase} (${i + 1})` : phrase); // Short material repeats its sentences
+  }
+  const { correctAnswer: _correctAnswer, correctAnswers: _correctAnswers, options: _options, pairs, ...question } = value;
+  const answers: Record<string, Record<string, unknown>> = {
+    mcq: { options, correctAnswer: options[0] },
+    true_false: { correctAnswer: 'True' },
+    multi_select: { options, correctAnswers: options.slice(0, 2) },
+    fill_blank: (() => {
+      const words = (value.questionText as string).split(' ');
+      const blank = Math.min(words.length - 1, 2);
+      const answer = words[blank].replace(/[^\p{L}\p{N}'-]/gu, '') || words[blank];
+      return { questionText: words.map((word, i) => (i === blank ? word.replace(answer, '___') : word)).join(' '), correctAnswers: [answer] };
+    })(),
+    matching: { pairs: (pairs as Record<string, string>[]).map((pair, i) => ({ left: `${i + 1}. ${shortPhrase(pair.left, 4)}`, right: phrases[i] })) },
+    ordering: { correctAnswers: phrases },
+    short_answer: { correctAnswer: shortPhrase(pick(context.sentences, index), 3) },
+  };
+  for (const key of Object.keys(value)) delete value[key];
+  Object.assign(value, question, answers[question.type as string] || answers.short_answer);
+};
+
+const mockValue = (schema: JsonSchema, context: MockJsonContext, key: string, index: number): unknown => {
+  switch (schema.type) {
+    case 'object': {
+      const value: Record<string, unknown> = {};
+      for (const [propertyKey, propertySchema] of Object.entries(schema.properties || {})) {
+        value[propertyKey] = mockValue(propertySchema, context, propertyKey, index);
+      }
+      if (typeof value.type === 'string' && 'questionText' in value) fitQuizQuestion(value, context, index);
+      return value;
+    }
+    case 'array': {
+      const length = NESTED_LIST_KEYS.has(key) ? 4 : context.requestedCount;
+      return Array.from({ length }, (_, i) => mockValue(schema.items || { type: 'string' }, context, key, i));
+    }
+    case 'string': {
+      if (schema.enum?.length) return pick(schema.enum, index + context.cursor);
+      if (key === 'id') return `q${index + 1}`;
+      const sentence = pick(context.sentences, context.cursor++);
+      if (key === 'title' || key === 'subject' || key === 'topic') return shortPhrase(sentence, 5);
+      if (key === 'options') return shortPhrase(sentence, 6);
+      if (/prompt/i.test(key)) return `A clean minimalist illustration of ${shortPhrase(sentence, 8).toLowerCase()}`;
+      return sentence;
+    }
+    case 'number':
+    case 'integer':
+      return key === 'score' ? 50 : index; // Half marks, so demo quizzes show how partial credit looks
+    case 'boolean':
+      return false;
+  }
+};
+
+const mockJson = (prompt: Prompt, schema: JsonSchema): string => {
+  const text = promptText(prompt);
+  const requestedCount = Number(text.match(/exactly (\d+)/i)?.[1]) || DEFAULT_ARRAY_LENGTH;
+  return JSON.stringify(mockValue(schema, { sentences: extractSentences(extractMaterial(text)), requestedCount, cursor: 0 }, '', 0));
+};
+
+const mockChat = (systemInstruction: string, message: string): string => {
+  const passages = [...systemInstruction.matchAll(/^\[(\d+)\] \(([^)]*)\)\n([\s\S]*?)(?=\n\n\[\d+\] \(|\n---|$)/gm)];
+  if (passages.length === 0) {
+    return `You asked: "${message}". I'm the offline demo assistant, so I can only answer from your study material, and none of it was shared with me for this question.`;
+  }
+  const quotes = passages.slice(0, 2).map(passage => `${extractSentences(passage[3])[0]} [${passage[1]}]`);
+  return `Here is what your material says that relates to "${message}":\n\n${quotes.join('\n\n')}`;
+};
+
+const mockImage = (prompt: string, aspectRatio: '16:9' | '1:1'): string => {
+  const hash = hashString(prompt);
+  const [width, height] = aspectRatio === '16:9' ? [1280, 720] : [1024, 1024];
+  const hueA = hash % 360;
+  const hueB = (hueA + 60 + (hash >> 9) % 120) % 360;
+  const circles = Array.from({ length: 5 }, (_, i) => {
+    const seed = hashString(`${prompt}:${i}`);
+    return `<circle cx="${seed % width}" cy="${(seed >> 11) % height}" r="${60 + (seed >> 5) % 160}" fill="hsla(${(hueA + i * 40) % 360},70%,80%,0.35)"/>`;
+  }).join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hueA},60%,45%)"/><stop offset="1" stop-color="hsl(${hueB},60%,30%)"/></linearGradient></defs>`
+    + `<rect width="100%" height="100%" fill="url(#g)"/>${circles}</svg>`;
+};
+
+// A hashed bag of words: texts sharing words end up with similar vectors, which is enough for retrieval demos.
+const mockEmbedding = (text: string): number[] => {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (word.length > 2) vector[hashString(word) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+};
+
+// Replays a finished answer word by word, so streaming UIs can be exercised offline.
+const streamWords = async (text: string, onText: TextStreamHandler, signal?: AbortSignal): Promise<string> => {
+  let streamed = '';
+  for (const word of text.match(/\S+\s*/g) || []) {
+    if (signal?.aborted) break;
+    await new Promise(resolve => setTimeout(resolve, STREAM_WORD_DELAY_MS));
+    streamed += word;
+    onText(streamed);
+  }
+  return streamed;
+};
+
+// Answers are instant, so checking the signal up front is all cancellation needs.
+const unlessAborted = <T,>(signal: AbortSignal | undefined, produce: () => T): Promise<T> => {
+  signal?.throwIfAborted();
+  return Promise.resolve(produce());
+};
+
+export const createMockProvider = (): LlmProvider => ({
+  id: 'mock',
+  name: 'Offline demo',
+  model: 'mock',
+  imageModel: 'mock',
+  embeddingModel: 'mock',
+  supportsWebSearch: false,
+  generateText: async (prompt, options) => unlessAborted(options?.signal, () => mockText(prompt)),
+  generateJson: async (prompt, schema, options) => unlessAborted(options?.signal, () => mockJson(prompt, schema)),
+  chat: async ({ systemInstruction, message, signal }) => unlessAborted(signal, () => ({ text: mockChat(systemInstruction, message) })),
+  streamText: (prompt, options, onText) => streamWords(mockText(prompt), onText, options?.signal),
+  streamChat: async ({ systemInstruction, message, signal }, onText) => ({ text: await streamWords(mockChat(systemInstruction, message), onText, signal) }),
+  generateImage: async (prompt, aspectRatio, signal) => unlessAborted(signal, () => ({ mimeType: 'image/svg+xml', data: btoa(mockImage(prompt, aspectRatio)) })),
+  embed: async (texts, _taskType, signal) => unlessAborted(signal, () => texts.map(mockEmbedding)),
+});
@@ -0,0 +1,184 @@
+import { LlmProvider, JsonSchema, Prompt, GenerationOptions, LlmHttpError, TextStreamHandler, ChatTurn } from './types';
+import { AiServiceError } from './errors';
+import { reportUsage, estimateTokens } from './usage';
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string; // e.g. "http://localhost:11434/v1" for Ollama or "http://localhost:8000/v1" for vLLM
+  apiKey?: string;
+  model: string;
+  imageModel?: string;
+  embeddingModel?: string;
+}
+
+type MessageContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface Message {
+  role: 'system' | 'user' | 'assistant';
+  content: MessageContent;
+}
+
+const toMessageContent = (prompt: Prompt): MessageContent =>
+  typeof prompt === 'string'
+    ? prompt
+    : prompt.map(part => ('text' in part
+      ? { type: 'text' as const, text: part.text }
+      : { type: 'image_url' as const, image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }));
+
+const IMAGE_SIZES = { '16:9': '1792x1024', '1:1': '1024x1024' };
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+const throwIfFiltered = (finishReason?: string | null) => {
+  if (finishReason === 'content_filter') throw new AiServiceError('safety-block');
+};
+
+// Talks to any server that implements the OpenAI REST API: OpenAI itself, vLLM, Ollama, llama.cpp, LM Studio...
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): LlmProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LlmHttpError(response.status, `The model server returned ${response.status}${detail ? `: ${detail.slice(0, 300)}` : ''}`, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return response;
+  };
+
+  const post = async <T,>(path: string, body: object, signal?: AbortSignal): Promise<T> => (await request(path, body, signal)).json();
+
+  const completionBody = (messages: Message[], options?: GenerationOptions) => ({
+    model: options?.model || config.model,
+    messages: options?.systemInstruction ? [{ role: 'system', content: options.systemInstruction }, ...messages] : messages,
+    temperature: options?.temperature,
+    top_p: options?.topP,
+  });
+
+  // Servers that leave out the usage block (some local ones do) get an estimate from the text instead.
+  const reportCompletionUsage = (usage: CompletionUsage | undefined, messages: Message[], text: string, options?: GenerationOptions) => reportUsage({
+    model: options?.model || config.model,
+    inputTokens: usage?.prompt_tokens ?? estimateTokens(JSON.stringify(messages)),
+    outputTokens: usage?.completion_tokens ?? estimateTokens(text),
+  }, options?.signal);
+
+  const complete = async (messages: Message[], options?: GenerationOptions, extra?: object): Promise<string> => {
+    const result = await post<{ choices?: { message?: { content?: string }; finish_reason?: string }[]; usage?: CompletionUsage }>('/chat/completions', { ...completionBody(messages, options), ...extra }, options?.signal);
+    const text = result.choices?.[0]?.message?.content || '';
+    reportCompletionUsage(result.usage, messages, text, options);
+    throwIfFiltered(result.choices?.[0]?.finish_reason);
+    return text;
+  };
+
+  // Reads the server-sent events of a streamed completion: one "data: {json}" line per delta, ending with "data: [DONE]".
+  const streamCompletion = async (messages: Message[], options: GenerationOptions | undefined, onText: TextStreamHandler): Promise<string> => {
+    let text = '';
+    let usage: CompletionUsage | undefined; // Sent in a final chunk with no choices
+    try {
+      const response = await request('/chat/completions', { ...completionBody(messages, options), stream: true, stream_options: { include_usage: true } }, options?.signal);
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        const lines = (buffer + value).split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+          if (!data || data === '[DONE]') continue;
+          const chunk = JSON.parse(data);
+          usage = chunk.usage || usage;
+          const choice = chunk.choices?.[0];
+          throwIfFiltered(choice?.finish_reason);
+          const delta: string | undefined = choice?.delta?.content;
+          if (!delta) continue;
+          text += delta;
+          onText(text);
+        }
+      }
+    } catch (error) {
+      if (!options?.signal?.aborted) throw error;
+    } finally {
+      reportCompletionUsage(usage, messages, text, options);
+    }
+    return text;
+  };
+
+  const chatMessages = (systemInstruction: string, history: ChatTurn[], message: string): Message[] => [
+    { role: 'system', content: systemInstruction },
+    ...history.map(turn => ({ role: turn.role, content: turn.text })),
+    { role: 'user', content: message },
+  ];
+
+  return {
+    id: 'openai-compatible',
+    name: `OpenAI-compatible (${config.model})`,
+    model: config.model,
+    imageModel: config.imageModel,
+    embeddingModel: config.embeddingModel,
+    supportsWebSearch: false,
+
+    generateText: (prompt, options) => complete([{ role: 'user', content: toMessageContent(prompt) }], options),
+
+    generateJson: (prompt, schema: JsonSchema, options) => {
+      // Not every server enforces json_schema, so the schema is also spelled out in the instructions.
+      const schemaInstruction = `Respond with JSON only, matching this JSON Schema:\n${JSON.stringify(schema)}`;
+      return complete(
+        [{ role: 'user', content: toMessageContent(prompt) }],
+        { ...options, systemInstruction: [options?.systemInstruction, schemaInstruction].filter(Boolean).join('\n\n') },
+        { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } } }
+      );
+    },
+
+    chat: async ({ systemInstruction, history, message, useWebSearch, ...options }) => ({
+      text: await complete(chatMessages(systemInstruction, history, message), options),
+    }),
+
+    streamText: (prompt, options, onText) => streamCompletion([{ role: 'user', content: toMessageContent(prompt) }], options, onText),
+
+    streamChat: async ({ systemInstruction, history, message, useWebSearch, ...options }, onText) => ({
+      text: await streamCompletion(chatMessages(systemInstruction, history, message), options, onText),
+    }),
+
+    generateImage: async (prompt, aspectRatio, signal, model = config.imageModel) => {
+      if (!model) return null;
+      const result = await post<{ data?: { b64_json?: string }[] }>('/images/generations', {
+        model,
+        prompt,
+        n: 1,
+        size: IMAGE_SIZES[aspectRatio],
+        response_format: 'b64_json',
+      }, signal);
+      reportUsage({ model, images: result.data?.length || 0 }, signal);
+      const data = result.data?.[0]?.b64_json;
+      return data ? { mimeType: 'image/png', data } : null;
+    },
+
+    embed: async (texts, _taskType, signal) => {
+      if (!config.embeddingModel) return null;
+      const result = await post<{ data?: { index: number; embedding: number[] }[]; usage?: CompletionUsage }>('/embeddings', { model: config.embeddingModel, input: texts }, signal);
+      reportUsage({ model: config.embeddingModel, inputTokens: result.usage?.prompt_tokens ?? estimateTokens(texts.join('')) }, signal);
+      const vectors = [...(result.data || [])].sort((a, b) => a.index - b.index).map(item => item.embedding);
+      return vectors.length === texts.length ? vectors : null;
+    },
+  };
+};
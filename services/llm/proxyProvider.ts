@@ -0,0 +1,95 @@
+import { GEMINI_API_PRO_TEXT_MODEL, GEMINI_API_PRO_IMAGE_MODEL, GEMINI_API_EMBEDDING_MODEL } from '../../constants';
+import { LlmProvider, LlmHttpError, TextStreamHandler, ChatResponse } from './types';
+import { AiServiceError, AiErrorKind } from './errors';
+import { reportUsage, UsageReport } from './usage';
+
+// The wire format shared with server/proxy.ts. Each provider method is a POST to /api/llm/<operation> with the
+// method's arguments as JSON. Plain calls answer with a ProxyResult; streaming calls answer with one JSON object
+// per line: { text } as text arrives, then a ProxyResult, or a ProxyFailure if the call failed midway.
+export type ProxyOperation = 'generateText' | 'generateJson' | 'chat' | 'streamText' | 'streamChat' | 'generateImage' | 'embed';
+
+export interface ProxyResult {
+  result: unknown;
+  usage: UsageReport[];
+}
+
+export interface ProxyFailure {
+  error: { kind: AiErrorKind; message: string; retryAfterMs?: number };
+}
+
+const toError = (failure: ProxyFailure) =>
+  new AiServiceError(failure.error.kind, failure.error.message, { retryAfterMs: failure.error.retryAfterMs });
+
+// Talks to the proxy in server/, which holds the Gemini key so it never has to ship in the app bundle.
+export const createProxyProvider = (baseUrl: string): LlmProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/api/llm`;
+
+  const request = async (operation: ProxyOperation, args: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${endpoint}/${operation}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+      signal,
+    });
+    if (!response.ok) {
+      const failure = await response.json().catch(() => null) as ProxyFailure | null;
+      if (failure?.error?.kind) throw toError(failure);
+      throw new LlmHttpError(response.status, `The AI proxy returned ${response.status}.`);
+    }
+    return response;
+  };
+
+  // Usage is counted by the proxy and replayed here, so the app's usage records look the same as in direct mode.
+  const finish = <T,>({ result, usage }: ProxyResult, signal?: AbortSignal): T => {
+    usage.forEach(report => reportUsage(report, signal));
+    return result as T;
+  };
+
+  const call = async <T,>(operation: ProxyOperation, args: object, signal?: AbortSignal): Promise<T> =>
+    finish<T>(await (await request(operation, args, signal)).json(), signal);
+
+  // Resolves with the text so far when the signal aborts, like the other providers' streams.
+  const stream = async <T,>(operation: ProxyOperation, args: object, signal: AbortSignal | undefined, onText: TextStreamHandler, partial: (text: string) => T): Promise<T> => {
+    let text = '';
+    try {
+      const reader = (await request(operation, args, signal)).body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        const lines = (buffer + value).split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines.filter(Boolean)) {
+          const message = JSON.parse(line);
+          if (message.error) throw toError(message);
+          if ('result' in message) return finish<T>(message, signal);
+          text = message.text;
+          onText(text);
+        }
+      }
+      throw new AiServiceError('network', 'The AI proxy closed the connection before the answer was complete.');
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+    }
+    return partial(text);
+  };
+
+  return {
+    id: 'proxy',
+    name: 'Google Gemini (via proxy)',
+    model: GEMINI_API_PRO_TEXT_MODEL,
+    imageModel: GEMINI_API_PRO_IMAGE_MODEL,
+    embeddingModel: GEMINI_API_EMBEDDING_MODEL,
+    supportsWebSearch: true,
+
+    generateText: (prompt, options) => call('generateText', { prompt, options: { ...options, signal: undefined } }, options?.signal),
+    generateJson: (prompt, schema, options) => call('generateJson', { prompt, schema, options: { ...options, signal: undefined } }, options?.signal),
+    chat: request => call<ChatResponse>('chat', { request: { ...request, signal: undefined } }, request.signal),
+    streamText: (prompt, options, onText) =>
+      stream('streamText', { prompt, options: { ...options, signal: undefined } }, options?.signal, onText, text => text),
+    streamChat: (request, onText) =>
+      stream<ChatResponse>('streamChat', { request: { ...request, signal: undefined } }, request.signal, onText, text => ({ text })),
+    generateImage: (prompt, aspectRatio, signal, model) => call('generateImage', { prompt, aspectRatio, model }, signal),
+    embed: (texts, taskType, signal) => call('embed', { texts, taskType }, signal),
+  };
+};
@@ -0,0 +1,186 @@
+import { LlmProvider, ModelParameters, RequestPriority } from './types';
+import { toAiServiceError } from './errors';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { interactive: 0, normal: 1, bulk: 2 };
+
+export interface RateLimit {
+  requestsPerMinute: number;
+  burst: number; // Requests that may go out back to back before pacing kicks in
+}
+
+export type RequestKind = 'text' | 'image' | 'embedding';
+
+export interface SchedulerConfig {
+  maxConcurrent: number;
+  // Keyed by model, or by request kind for the models without an entry of their own. Calls that match neither are
+  // only limited by concurrency.
+  rateLimits: Record<string, RateLimit>;
+  maxAttempts: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+export interface ScheduleOptions {
+  kind: RequestKind;
+  model: string; // Each model has its own bucket
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+}
+
+export interface RequestScheduler {
+  run: <T>(task: () => Promise<T>, options: ScheduleOptions) => Promise<T>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  pausedUntil: number; // Set by a rate-limit response, so every request to that model backs off together
+}
+
+interface QueueEntry {
+  sequence: number;
+  priority: RequestPriority;
+  bucket: string;
+  limit?: RateLimit;
+  attempt: number;
+  start: () => void;
+}
+
+// Every model call waits here for a concurrency slot and a token from its model's bucket. Waiting calls start in
+// priority order, though a call whose bucket is empty doesn't hold up calls to other models. Rate-limited calls are
+// retried with exponential backoff (or the server's retry-after hint), and their whole bucket pauses meanwhile.
+export const createRequestScheduler = (config: SchedulerConfig): RequestScheduler => {
+  const queue: QueueEntry[] = [];
+  const buckets = new Map<string, Bucket>();
+  let running = 0;
+  let sequence = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const limitFor = ({ kind, model }: ScheduleOptions): RateLimit | undefined => config.rateLimits[model] ?? config.rateLimits[kind];
+
+  const bucketFor = (name: string, limit: RateLimit | undefined, now: number): Bucket => {
+    let bucket = buckets.get(name);
+    if (!bucket) {
+      bucket = { tokens: limit?.burst ?? 0, updatedAt: now, pausedUntil: 0 };
+      buckets.set(name, bucket);
+    }
+    if (limit) {
+      bucket.tokens = Math.min(limit.burst, bucket.tokens + ((now - bucket.updatedAt) * limit.requestsPerMinute) / 60000);
+    }
+    bucket.updatedAt = now;
+    return bucket;
+  };
+
+  // How long until a call to this bucket may start; 0 means now.
+  const waitFor = (name: string, limit: RateLimit | undefined, now: number): number => {
+    const bucket = bucketFor(name, limit, now);
+    const tokenWait = limit && bucket.tokens < 1 ? ((1 - bucket.tokens) * 60000) / limit.requestsPerMinute : 0;
+    return Math.max(tokenWait, bucket.pausedUntil - now, 0);
+  };
+
+  const pump = () => {
+    if (timer) { clearTimeout(timer); timer = null; }
+    queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.sequence - b.sequence);
+    let nextWake = Infinity;
+    for (let i = 0; i < queue.length && running < config.maxConcurrent; i++) {
+      const entry = queue[i];
+      const now = Date.now();
+      const wait = waitFor(entry.bucket, entry.limit, now);
+      if (wait > 0) {
+        nextWake = Math.min(nextWake, wait);
+        continue;
+      }
+      if (entry.limit) bucketFor(entry.bucket, entry.limit, now).tokens -= 1;
+      queue.splice(i--, 1);
+      running++;
+      entry.start();
+    }
+    if (queue.length > 0 && running < config.maxConcurrent && nextWake < Infinity) timer = setTimeout(pump, nextWake);
+  };
+
+  const backoffDelay = (attempt: number, retryAfterMs?: number) => {
+    if (retryAfterMs !== undefined) return Math.min(retryAfterMs, config.maxBackoffMs);
+    const exponential = config.initialBackoffMs * 2 ** (attempt - 1);
+    return Math.min(exponential * (0.8 + Math.random() * 0.4), config.maxBackoffMs); // Jitter keeps paused calls from returning in lockstep
+  };
+
+  const run = <T,>(task: () => Promise<T>, options: ScheduleOptions): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const { model: bucket, priority = 'normal', signal } = options;
+      const entry: QueueEntry = { sequence: sequence++, priority, bucket, limit: limitFor(options), attempt: 0, start: () => {} };
+
+      const onAbort = () => {
+        const index = queue.indexOf(entry);
+        if (index === -1) return; // Already running; the task itself sees the signal
+        queue.splice(index, 1);
+        reject(signal!.reason);
+        pump();
+      };
+
+      entry.start = () => {
+        entry.attempt++;
+        task().then(
+          value => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(value);
+          },
+          rawError => {
+            const error = signal?.aborted ? signal.reason : toAiServiceError(rawError);
+            const retryable = !signal?.aborted && error.kind === 'rate-limit' && entry.attempt < config.maxAttempts;
+            if (!retryable) {
+              signal?.removeEventListener('abort', onAbort);
+              reject(error);
+              return;
+            }
+            const delay = backoffDelay(entry.attempt, error.retryAfterMs);
+            const state = bucketFor(bucket, entry.limit, Date.now());
+            state.pausedUntil = Math.max(state.pausedUntil, Date.now() + delay);
+            console.warn(`Rate limited on "${bucket}". Retrying in ${(delay / 1000).toFixed(1)}s (attempt ${entry.attempt + 1}/${config.maxAttempts}).`);
+            queue.push(entry); // Keeps its sequence number, so it goes ahead of later calls of the same priority
+          }
+        ).finally(() => {
+          running--;
+          pump();
+        });
+      };
+
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(entry);
+      pump();
+    });
+
+  return { run };
+};
+
+// Routes every method of a provider through the scheduler, in the bucket of the model the call will use. Chat is
+// interactive and images are bulk work; text calls take the priority from their options, and embeddings are
+// interactive only when they embed a chat question.
+export const withScheduling = (provider: LlmProvider, scheduler: RequestScheduler): LlmProvider => {
+  const text = (parameters?: ModelParameters) => ({ kind: 'text' as const, model: parameters?.model || provider.model });
+  return {
+    ...provider,
+    generateText: (prompt, options) =>
+      scheduler.run(() => provider.generateText(prompt, options), { ...text(options), priority: options?.priority, signal: options?.signal }),
+    generateJson: (prompt, schema, options) =>
+      scheduler.run(() => provider.generateJson(prompt, schema, options), { ...text(options), priority: options?.priority, signal: options?.signal }),
+    chat: request =>
+      scheduler.run(() => provider.chat(request), { ...text(request), priority: 'interactive', signal: request.signal }),
+    streamText: (prompt, options, onText) =>
+      scheduler.run(() => provider.streamText(prompt, options, onText), { ...text(options), priority: options?.priority, signal: options?.signal }),
+    streamChat: (request, onText) =>
+      scheduler.run(() => provider.streamChat(request, onText), { ...text(request), priority: 'interactive', signal: request.signal }),
+    generateImage: (prompt, aspectRatio, signal, model) =>
+      scheduler.run(() => provider.generateImage(prompt, aspectRatio, signal, model), { kind: 'image', model: model || provider.imageModel || 'image', priority: 'bulk', signal }),
+    embed: (texts, taskType, signal) =>
+      scheduler.run(() => provider.embed(texts, taskType, signal), {
+        kind: 'embedding',
+        model: provider.embeddingModel || 'embedding',
+        priority: taskType === 'RETRIEVAL_QUERY' ? 'interactive' : 'bulk',
+        signal,
+      }),
+  };
+};
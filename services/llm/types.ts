@@ -0,0 +1,95 @@
+import { GroundingSource } from '../../types';
+
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'proxy' | 'mock';
+
+// A provider-neutral subset of JSON Schema, enough to describe the structured outputs the app asks for.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  description?: string;
+}
+
+export type PromptPart = { text: string } | { inlineData: { mimeType: string; data: string } }; // data is base64
+
+export type Prompt = string | PromptPart[];
+
+// Decides which waiting request goes first when the scheduler is holding requests back (see scheduler.ts).
+export type RequestPriority = 'interactive' | 'normal' | 'bulk';
+
+// Which model answers a call and how it samples. Anything unset is left to the provider's defaults.
+export interface ModelParameters {
+  model?: string; // Instead of the provider's own text model
+  temperature?: number;
+  topP?: number;
+  topK?: number; // Ignored by providers that don't support it
+}
+
+export interface GenerationOptions extends ModelParameters {
+  systemInstruction?: string;
+  signal?: AbortSignal;
+  priority?: RequestPriority; // Defaults to 'normal'
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface ChatRequest extends ModelParameters {
+  systemInstruction: string;
+  history: ChatTurn[];
+  message: string;
+  useWebSearch?: boolean; // Only honoured by providers with a search tool
+  signal?: AbortSignal;
+}
+
+export interface ChatResponse {
+  text: string;
+  groundingSources?: GroundingSource[];
+}
+
+export interface GeneratedImage {
+  mimeType: string;
+  data: string; // base64
+}
+
+export type TextStreamHandler = (text: string) => void; // Called with the full text received so far
+
+export type EmbeddingTaskType = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY';
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  name: string;
+  model: string; // The text model's id, so responses can be told apart by the model that wrote them
+  imageModel?: string; // Unset when the provider can't generate images
+  embeddingModel?: string; // Unset when the provider can't embed text
+  supportsWebSearch: boolean;
+  generateText: (prompt: Prompt, options?: GenerationOptions) => Promise<string>;
+  // Resolves to the raw JSON text; callers parse and validate it.
+  generateJson: (prompt: Prompt, schema: JsonSchema, options?: GenerationOptions) => Promise<string>;
+  chat: (request: ChatRequest) => Promise<ChatResponse>;
+  // Streaming variants of generateText and chat. Where those reject when their signal aborts, these resolve with the
+  // text received so far.
+  streamText: (prompt: Prompt, options: GenerationOptions | undefined, onText: TextStreamHandler) => Promise<string>;
+  streamChat: (request: ChatRequest, onText: TextStreamHandler) => Promise<ChatResponse>;
+  // Resolves to null when the provider has no image model. `model` replaces the provider's image model.
+  generateImage: (prompt: string, aspectRatio: '16:9' | '1:1', signal?: AbortSignal, model?: string) => Promise<GeneratedImage | null>;
+  // Resolves to null when the provider has no embedding model.
+  embed: (texts: string[], taskType: EmbeddingTaskType, signal?: AbortSignal) => Promise<number[][] | null>;
+}
+
+// Thrown for HTTP failures so retry logic can see the status code and any Retry-After hint.
+export class LlmHttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LlmHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
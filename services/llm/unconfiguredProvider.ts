@@ -0,0 +1,23 @@
+import { LlmProvider, LlmProviderId } from './types';
+import { AiServiceError } from './errors';
+
+// Stands in for a provider that was asked for but can't be set up, so every call fails with the configuration
+// problem instead of the app quietly saving demo output as real content.
+export const createUnconfiguredProvider = (id: LlmProviderId, problem: string): LlmProvider => {
+  const fail = async (): Promise<never> => {
+    throw new AiServiceError('missing-key', problem);
+  };
+  return {
+    id,
+    name: 'Not configured',
+    model: 'none',
+    supportsWebSearch: false,
+    generateText: fail,
+    generateJson: fail,
+    chat: fail,
+    streamText: fail,
+    streamChat: fail,
+    generateImage: fail,
+    embed: fail,
+  };
+};
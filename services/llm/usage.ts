@@ -0,0 +1,34 @@
+// Providers report what each response consumed here, and the app-level usage service (services/usageService.ts)
+// attributes and totals it. Providers that don't report counts (local servers, embeddings) are estimated.
+
+export interface UsageReport {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+}
+
+export type UsageListener = (usage: UsageReport, signal?: AbortSignal) => void;
+
+const listeners = new Set<UsageListener>();
+
+// Returns a function that removes the listener.
+export const onUsage = (listener: UsageListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// The signal identifies the operation the call belonged to, so listeners can attribute it.
+export const reportUsage = (usage: Partial<UsageReport> & { model: string }, signal?: AbortSignal) => {
+  const report: UsageReport = { inputTokens: 0, outputTokens: 0, images: 0, ...usage };
+  listeners.forEach(listener => {
+    try {
+      listener(report, signal);
+    } catch (error) {
+      console.warn('A usage listener failed.', error);
+    }
+  });
+};
+
+// About four characters per token for English text; only used where the provider gives no count.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
@@ -0,0 +1,136 @@
+import { MODEL_SETTINGS_STORAGE_KEY } from '../constants';
+import { getLlmProvider, ModelParameters } from './llm';
+
+export type ModelTask =
+  | 'metadata'
+  | 'transcription'
+  | 'summary'
+  | 'explanation'
+  | 'notes'
+  | 'quiz'
+  | 'grading'
+  | 'chat'
+  | 'diagram'
+  | 'slides'
+  | 'video'
+  | 'translation'
+  | 'images';
+
+export interface ModelTaskInfo {
+  id: ModelTask;
+  name: string;
+  description: string;
+  output: 'text' | 'image'; // Image tasks only have a model to choose
+}
+
+export const MODEL_TASKS: ModelTaskInfo[] = [
+  { id: 'metadata', name: 'Metadata', description: 'Suggests the title, subject, topic and difficulty of new material.', output: 'text' },
+  { id: 'transcription', name: 'Image transcription', description: 'Reads the text and diagrams of uploaded images.', output: 'text' },
+  { id: 'summary', name: 'Summary', description: 'The short summary of a material.', output: 'text' },
+  { id: 'explanation', name: 'Explanation', description: 'The AI-Powered Explanation.', output: 'text' },
+  { id: 'notes', name: 'Notes', description: 'Notes at every level of detail.', output: 'text' },
+  { id: 'quiz', name: 'Quiz', description: 'Quiz questions and the feedback after a quiz.', output: 'text' },
+  { id: 'grading', name: 'Short-answer grading', description: 'Judges short quiz answers against the reference answer.', output: 'text' },
+  { id: 'chat', name: 'Chat', description: 'Answers of the study assistant.', output: 'text' },
+  { id: 'diagram', name: 'Block diagram', description: 'The Mermaid diagram of the explanation.', output: 'text' },
+  { id: 'slides', name: 'Presentation slides', description: 'Slide text and image prompts.', output: 'text' },
+  { id: 'video', name: 'Video script', description: 'Narration and image prompts of the narrated video.', output: 'text' },
+  { id: 'translation', name: 'Translation', description: 'Translates a material into another language.', output: 'text' },
+  { id: 'images', name: 'Images', description: 'Slide and video images.', output: 'image' },
+];
+
+// What the app asks for when the user hasn't chosen otherwise. The model is left to the provider.
+const DEFAULT_SETTINGS: Record<ModelTask, ModelParameters> = {
+  metadata: {},
+  transcription: { temperature: 0.1 }, // Copy what is written, don't invent
+  summary: { temperature: 0.5, topP: 0.9, topK: 40 },
+  explanation: { temperature: 0.6, topP: 0.95, topK: 50 },
+  notes: {},
+  quiz: {},
+  grading: { temperature: 0 }, // The same answer should get the same grade
+  chat: {},
+  diagram: {},
+  slides: {},
+  video: {},
+  translation: { temperature: 0.2 }, // Faithful rather than creative
+  images: {},
+};
+
+// The settings a call will actually use: the user's choices over the defaults, with the model filled in.
+export interface EffectiveModelSettings extends ModelParameters {
+  overridden: (keyof ModelParameters)[]; // The fields the user set
+}
+
+const PARAMETER_KEYS: (keyof ModelParameters)[] = ['model', 'temperature', 'topP', 'topK'];
+
+const loadStored = (): Partial<Record<ModelTask, ModelParameters>> => {
+  try {
+    return JSON.parse(localStorage.getItem(MODEL_SETTINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveStored = (stored: Partial<Record<ModelTask, ModelParameters>>) => {
+  localStorage.setItem(MODEL_SETTINGS_STORAGE_KEY, JSON.stringify(stored));
+};
+
+const withoutUnset = (parameters: ModelParameters): ModelParameters =>
+  Object.fromEntries(Object.entries(parameters).filter(([, value]) => value !== undefined && value !== '')) as ModelParameters;
+
+const isImageTask = (task: ModelTask) => MODEL_TASKS.find(info => info.id === task)?.output === 'image';
+
+export const getDefaultModel = (task: ModelTask): string | undefined => {
+  const provider = getLlmProvider();
+  return isImageTask(task) ? provider.imageModel : provider.model;
+};
+
+export const getModelSettings = (task: ModelTask): EffectiveModelSettings => {
+  const overrides = withoutUnset(loadStored()[task] || {});
+  return {
+    ...DEFAULT_SETTINGS[task],
+    ...overrides,
+    model: overrides.model || getDefaultModel(task),
+    overridden: PARAMETER_KEYS.filter(key => key in overrides),
+  };
+};
+
+// The parameters to send with a call, without the bookkeeping.
+export const modelParametersFor = (task: ModelTask): ModelParameters => {
+  const { overridden, ...parameters } = getModelSettings(task);
+  return parameters;
+};
+
+// Problems that would make the model reject the settings. Ranges are the widest any supported provider accepts.
+export const validateModelSettings = (task: ModelTask, settings: ModelParameters): string[] => {
+  const errors: string[] = [];
+  const { temperature, topP, topK } = settings;
+  if (isImageTask(task) && [temperature, topP, topK].some(value => value !== undefined)) errors.push('Image models only take a model name.');
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) errors.push('Temperature must be between 0 and 2.');
+  if (topP !== undefined && !(topP > 0 && topP <= 1)) errors.push('Top-p must be above 0 and at most 1.');
+  if (topK !== undefined && !(Number.isInteger(topK) && topK >= 1)) errors.push('Top-k must be a whole number of at least 1.');
+  return errors;
+};
+
+// Fields left unset go back to the defaults.
+export const saveModelSettings = (task: ModelTask, settings: ModelParameters): EffectiveModelSettings => {
+  const overrides = withoutUnset({ ...settings, model: settings.model?.trim() });
+  const errors = validateModelSettings(task, overrides);
+  if (errors.length > 0) throw new Error(errors.join(' '));
+  const stored = loadStored();
+  if (Object.keys(overrides).length > 0) stored[task] = overrides;
+  else delete stored[task];
+  saveStored(stored);
+  return getModelSettings(task);
+};
+
+export const resetModelSettings = (task: ModelTask): EffectiveModelSettings => saveModelSettings(task, {});
+
+// A one-line account of the settings, e.g. "gemini-2.5-flash, temperature 0.5, top-p 0.9, top-k 40".
+export const describeModelSettings = ({ model, temperature, topP, topK }: ModelParameters): string =>
+  [
+    model || 'no model',
+    temperature !== undefined && `temperature ${temperature}`,
+    topP !== undefined && `top-p ${topP}`,
+    topK !== undefined && `top-k ${topK}`,
+  ].filter(Boolean).join(', ');
@@ -0,0 +1,98 @@
+import { PROMPT_TEMPLATES_STORAGE_KEY } from '../constants';
+import { PROMPT_TEMPLATES, PromptTemplate, PromptTemplateId } from './promptTemplates';
+
+export type { PromptTemplate, PromptTemplateId };
+
+// An instructor's edit of a template. The revision counts every save and is kept on reset, so a later edit never
+// reuses the version of an earlier one.
+interface StoredTemplate {
+  text?: string; // Unset after a reset to the default
+  revision: number;
+  updatedAt: string;
+}
+
+export interface ResolvedPromptTemplate extends PromptTemplate {
+  text: string;
+  version: string; // "<id>@<n>" for the built-in text, "<id>@custom-<n>" for an edited one
+  isCustom: boolean;
+  updatedAt?: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const loadStored = (): Partial<Record<PromptTemplateId, StoredTemplate>> => {
+  try {
+    return JSON.parse(localStorage.getItem(PROMPT_TEMPLATES_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveStored = (stored: Partial<Record<PromptTemplateId, StoredTemplate>>) => {
+  localStorage.setItem(PROMPT_TEMPLATES_STORAGE_KEY, JSON.stringify(stored));
+};
+
+const definitionOf = (id: PromptTemplateId): PromptTemplate => {
+  const template = PROMPT_TEMPLATES.find(candidate => candidate.id === id);
+  if (!template) throw new Error(`Unknown prompt template "${id}".`);
+  return template;
+};
+
+const resolve = (template: PromptTemplate, stored?: StoredTemplate): ResolvedPromptTemplate =>
+  stored?.text !== undefined
+    ? { ...template, text: stored.text, version: `${template.id}@custom-${stored.revision}`, isCustom: true, updatedAt: stored.updatedAt }
+    : { ...template, text: template.defaultText, version: `${template.id}@${template.defaultVersion}`, isCustom: false };
+
+export const listPromptTemplates = (): ResolvedPromptTemplate[] => {
+  const stored = loadStored();
+  return PROMPT_TEMPLATES.map(template => resolve(template, stored[template.id]));
+};
+
+export const getPromptTemplate = (id: PromptTemplateId): ResolvedPromptTemplate => resolve(definitionOf(id), loadStored()[id]);
+
+// Problems that would keep a template from working: placeholders it doesn't know, or required ones it lost.
+export const validatePromptTemplate = (id: PromptTemplateId, text: string): string[] => {
+  const template = definitionOf(id);
+  const used = new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]));
+  const errors: string[] = [];
+  if (!text.trim()) errors.push('The template is empty.');
+  for (const name of used) {
+    if (!template.variables.includes(name)) errors.push(`{{${name}}} is not a variable of this template.`);
+  }
+  for (const name of template.required) {
+    if (!used.has(name)) errors.push(`{{${name}}} is required.`);
+  }
+  return errors;
+};
+
+// Saving the built-in text unchanged is the same as resetting.
+export const savePromptTemplate = (id: PromptTemplateId, text: string): ResolvedPromptTemplate => {
+  const errors = validatePromptTemplate(id, text);
+  if (errors.length > 0) throw new Error(errors.join(' '));
+  if (text === definitionOf(id).defaultText) return resetPromptTemplate(id);
+  const stored = loadStored();
+  const previous = stored[id];
+  if (previous?.text === text) return getPromptTemplate(id);
+  stored[id] = { text, revision: (previous?.revision || 0) + 1, updatedAt: new Date().toISOString() };
+  saveStored(stored);
+  return getPromptTemplate(id);
+};
+
+export const resetPromptTemplate = (id: PromptTemplateId): ResolvedPromptTemplate => {
+  const stored = loadStored();
+  const previous = stored[id];
+  if (previous?.text !== undefined) {
+    stored[id] = { revision: previous.revision, updatedAt: new Date().toISOString() };
+    saveStored(stored);
+  }
+  return getPromptTemplate(id);
+};
+
+// Fills in the placeholders. Ones without a value are left as written, so a mistake shows up in the output.
+export const renderPromptTemplate = (id: PromptTemplateId, values: Record<string, string | number>): { text: string; version: string } => {
+  const { text, version } = getPromptTemplate(id);
+  return {
+    text: text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => (name in values ? String(values[name]) : placeholder)),
+    version,
+  };
+};
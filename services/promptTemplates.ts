@@ -0,0 +1,249 @@
+// The built-in prompt templates. Placeholders are written {{name}} and filled in by promptTemplateService.
+// Bump a template's defaultVersion whenever its text changes, so answers cached for the old text stop being served
+// and artifacts record which text produced them.
+
+export type PromptTemplateId =
+  | 'metadata'
+  | 'transcription'
+  | 'explanation'
+  | 'summary'
+  | 'notes'
+  | 'notesShort'
+  | 'notesMedium'
+  | 'notesDetailed'
+  | 'quiz'
+  | 'quizFeedback'
+  | 'answerGrading'
+  | 'presentation'
+  | 'diagram'
+  | 'videoScript'
+  | 'translation'
+  | 'chat';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  variables: string[]; // Every placeholder the template may use
+  required: string[]; // Placeholders a saved template must keep, such as the material itself
+  defaultText: string;
+  defaultVersion: number;
+}
+
+const TIMESTAMP_HINT_DESCRIPTION = 'timestampHint asks the AI to cite [m:ss] timestamps when the material has them.';
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'metadata',
+    name: 'Metadata suggestion',
+    description: 'The title, subject, topic and difficulty suggested for new material. content is the start of the material. The reply format is fixed by the app.',
+    variables: ['content'],
+    required: ['content'],
+    defaultVersion: 1,
+    defaultText: `Analyze the following content and suggest metadata.
+- title: A concise, descriptive title.
+- subject: The main academic or professional subject (e.g., Biology, Computer Science, History).
+- topic: The specific topic within the subject (e.g., Photosynthesis, Data Structures, World War II).
+- difficulty: Choose one: 'Easy', 'Medium', or 'Hard'.
+
+Content:
+{{content}}...`,
+  },
+  {
+    id: 'transcription',
+    name: 'Image transcription',
+    description: 'How an uploaded image is turned into text. The image is sent along with it, and the reply format is fixed by the app.',
+    variables: [],
+    required: [],
+    defaultVersion: 1,
+    defaultText: `You are transcribing a student's study material from an image. It may be a whiteboard photo, a textbook scan or handwritten notes.
+
+1. "text": Transcribe ALL readable text exactly as written, in reading order. Preserve the structure using markdown: headings as "#", bullet and numbered lists, and tables as markdown tables. Write equations in plain text (e.g. "E = mc^2"). Mark unreadable words as [illegible]. Do not summarize, correct or add content.
+2. "diagrams": For every diagram, chart, graph or labelled drawing in the image, give a short "title" and a "description" that explains what it shows, including its labels and how the parts relate, so that a student who cannot see the image could learn from it. Return an empty list if there are none.`,
+  },
+  {
+    id: 'explanation',
+    name: 'Explanation',
+    description: `The "AI-Powered Explanation" of a material. ${TIMESTAMP_HINT_DESCRIPTION}`,
+    variables: ['content', 'timestampHint'],
+    required: ['content'],
+    defaultVersion: 1,
+    defaultText: `You are an expert teacher. Your goal is to explain the core concepts from the following study material in a clear, simple, and easy-to-understand way.
+Break down complex topics, use analogies if helpful, and structure the explanation logically. Avoid simply rephrasing the text; provide genuine clarification and insight.
+{{timestampHint}}
+
+Content to explain:
+{{content}}`,
+  },
+  {
+    id: 'summary',
+    name: 'Summary',
+    description: `A short summary of a material. For long material, content is the summaries of its sections. ${TIMESTAMP_HINT_DESCRIPTION}`,
+    variables: ['content', 'timestampHint'],
+    required: ['content'],
+    defaultVersion: 1,
+    defaultText: `Generate a concise summary (around 100-150 words) of the following content. Focus on the main ideas and key takeaways. {{timestampHint}}
+
+Content:
+{{content}}`,
+  },
+  {
+    id: 'notes',
+    name: 'Notes',
+    description: `Notes at the chosen level of detail; detail is one of the three note-length templates below. ${TIMESTAMP_HINT_DESCRIPTION}`,
+    variables: ['content', 'detail', 'timestampHint'],
+    required: ['content', 'detail'],
+    defaultVersion: 1,
+    defaultText: `Generate notes for the following content. The desired level of detail is: {{detail}} {{timestampHint}}
+
+Content:
+{{content}}`,
+  },
+  {
+    id: 'notesShort',
+    name: 'Notes detail: short',
+    description: 'What "short" notes should contain. Also used when long material is noted section by section.',
+    variables: [],
+    required: [],
+    defaultVersion: 1,
+    defaultText: 'Provide a concise summary in 3-5 bullet points. Focus only on the absolute main ideas.',
+  },
+  {
+    id: 'notesMedium',
+    name: 'Notes detail: medium',
+    description: 'What "medium" notes should contain. Also used when long material is noted section by section.',
+    variables: [],
+    required: [],
+    defaultVersion: 1,
+    defaultText: 'Outline the core concepts and key supporting details in a structured list. Use nested bullets if necessary.',
+  },
+  {
+    id: 'notesDetailed',
+    name: 'Notes detail: detailed',
+    description: 'What "detailed" notes should contain. Also used when long material is noted section by section.',
+    variables: [],
+    required: [],
+    defaultVersion: 1,
+    defaultText: 'Create comprehensive, detailed notes covering all significant topics, definitions, and examples. Structure it with clear headings and bullet points.',
+  },
+  {
+    id: 'quiz',
+    name: 'Quiz questions',
+    description: 'Quiz questions for one section of a material. The answer format is fixed by the app, so only describe what to ask.',
+    variables: ['content', 'count'],
+    required: ['content', 'count'],
+    defaultVersion: 2,
+    defaultText: `Generate a quiz with exactly {{count}} questions based on the provided content. Use a mix of question types: multiple choice (mcq), true or false (true_false), select all that apply (multi_select), fill in the blank (fill_blank), matching pairs (matching), putting items in order (ordering) and short answer (short_answer). Choose the type that suits each point best.
+
+Content:
+{{content}}`,
+  },
+  {
+    id: 'quizFeedback',
+    name: 'Quiz feedback',
+    description: 'The feedback shown after a quiz. content is the start of the material.',
+    variables: ['content', 'score', 'total'],
+    required: [],
+    defaultVersion: 1,
+    defaultText: `A student just completed a quiz on the following material. They scored {{score}} out of {{total}}.
+Provide some brief, encouraging feedback. If their score is low, gently suggest which areas from the material they might want to review.
+
+Study Material (for context):
+{{content}}...`,
+  },
+  {
+    id: 'answerGrading',
+    name: 'Short-answer grading',
+    description: "How short quiz answers are judged. answers lists each question with its reference answer, rubric and the student's answer. The reply format is fixed by the app.",
+    variables: ['answers'],
+    required: ['answers'],
+    defaultVersion: 1,
+    defaultText: `You are grading a student's short answers to quiz questions. Judge each answer by its meaning, not its wording: an answer that says the same as the reference answer in other words, or with spelling mistakes, deserves full credit. Use the rubric's key points to give partial credit to answers that are partly right, and no credit to answers that are wrong, off-topic or empty. Justify each grade in one or two sentences addressed to the student.
+
+Answers:
+{{answers}}`,
+  },
+  {
+    id: 'presentation',
+    name: 'Presentation slides',
+    description: 'Slide titles, bullet points and image prompts, written from the explanation.',
+    variables: ['content'],
+    required: ['content'],
+    defaultVersion: 1,
+    defaultText: `Based on the following explanation, create content for a PowerPoint presentation.
+The presentation should have a main title and 5-7 content slides.
+For each slide, provide:
+1. A concise 'title'.
+2. 3-4 'content' bullet points.
+3. A visually descriptive 'imagePrompt' for an AI image generator. The prompt must describe a **professional and minimalist illustration** with a clean aesthetic. The image should be relevant to the slide's content, visually engaging, and suitable for a widescreen (16:9) presentation. **Do not include any text in the image description.**
+
+Explanation:
+{{content}}`,
+  },
+  {
+    id: 'diagram',
+    name: 'Block diagram',
+    description: 'A Mermaid diagram of the explanation. The app only accepts "graph TD" or "graph LR" diagrams, so keep that rule.',
+    variables: ['content'],
+    required: ['content'],
+    defaultVersion: 1,
+    defaultText: `You are an expert in creating flawless Mermaid.js diagrams. Your task is to create a "graph TD" (top-down) block diagram from the given text.
+
+You MUST follow these rules STRICTLY:
+1.  **SYNTAX:** Use only "graph TD" format.
+2.  **CONCISENESS:** Keep node labels short and to the point. Do not use full sentences.
+3.  **QUOTES ARE MANDATORY:** If a node's text contains ANY special characters (parentheses, commas, dashes, etc.) or spaces, you MUST enclose the entire text in double quotes.
+    -   CORRECT: \`A["Node with (details)"] --> B["Another, one"]\`
+    -   INCORRECT: \`A[Node with (details)] --> B[Another, one]\`
+4.  **CONNECTIONS:** All connections must be complete using \`-->\`. Do not leave dangling arrows or use other arrow types.
+5.  **NO SUBGRAPHS:** Do not use the \`subgraph\` keyword. Keep the diagram simple.
+6.  **FINAL OUTPUT:** Enclose the final, complete Mermaid code in a single markdown code block like \`\`\`mermaid ... \`\`\`.
+
+Explanation to visualize:
+{{content}}`,
+  },
+  {
+    id: 'videoScript',
+    name: 'Video script',
+    description: 'The narration and image prompts of the narrated video, written from the explanation.',
+    variables: ['content'],
+    required: ['content'],
+    defaultVersion: 1,
+    defaultText: `You are an expert educator and creative director. Your task is to turn the following educational text into a script for a short, engaging video (around 1-2 minutes). Break it down into exactly 5 key scenes.
+
+For each scene, provide:
+1.  A concise "script" for the voice-over narration. Each script should be 2-3 sentences long.
+2.  A detailed, visually rich "imagePrompt" for an AI image generator. The prompt must describe a **cinematic and photorealistic image** that is visually stunning. Describe the style (e.g., dramatic lighting, soft focus), composition, and content clearly. The image must be relevant to the script and suitable for a widescreen educational video. **Do not include any text in the image description.**
+
+Educational Text:
+{{content}}`,
+  },
+  {
+    id: 'translation',
+    name: 'Translation',
+    description: 'Translates a material, or one section of a long one. language is the name of the target language.',
+    variables: ['content', 'language'],
+    required: ['content', 'language'],
+    defaultVersion: 1,
+    defaultText: `Translate the following study material into {{language}}. Translate all of it and keep its meaning exact. Keep the structure: headings, lists, tables and line breaks. Leave [m:ss] timestamps, numbers, formulas and code unchanged. Reply with the translation only, without any introduction or comments.
+
+Material:
+{{content}}`,
+  },
+  {
+    id: 'chat',
+    name: 'Study chat',
+    description: 'The instructions for the study assistant. passages are the parts of the material most relevant to the question, numbered for citation; transcriptHint asks for timestamps on video transcripts.',
+    variables: ['title', 'topic', 'subject', 'passageCount', 'passages', 'transcriptHint'],
+    required: ['passages'],
+    defaultVersion: 1,
+    defaultText: `You are Ameena AI, a friendly and expert study assistant. The user is currently studying the following material titled "{{title}}". Topic: {{topic}}. Subject: {{subject}}.
+
+Below are the passages of the study material most relevant to the user's latest message, numbered [1] to [{{passageCount}}]. Base your answer on them, and when you use information from a passage, cite it with its number in square brackets, like [2]. If the passages do not cover the question, say so briefly and answer from general knowledge without a citation. Be helpful, encouraging, and clear.{{transcriptHint}}
+
+---
+RELEVANT PASSAGES:
+{{passages}}
+---`,
+  },
+];
@@ -0,0 +1,90 @@
+import { QuizQuestion, QuizAnswer, AnswerGrading } from '../types';
+
+// How a blank is written in a fill_blank question's text.
+export const BLANK = '___';
+
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Whether a typed or chosen answer counts as the expected one. Stored answers can hold nulls for blanks or pairs that
+// were never filled in.
+export const isSameAnswer = (a?: string | null, b?: string | null) => !!a && !!b && normalizeText(a) === normalizeText(b);
+
+const asList = (value?: QuizAnswer): string[] => (Array.isArray(value) ? value : value ? [value] : []);
+
+const fractionOf = (matches: number, total: number) => (total === 0 ? 0 : matches / total);
+
+const alphabetically = (items: string[]) => [...items].sort((a, b) => a.localeCompare(b));
+
+export const blankCount = (questionText: string) => questionText.split(BLANK).length - 1;
+
+const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// The order an ordering question's items are first shown in. It is a shuffle seeded by the question, so it stays the
+// same between renders, and it never matches the answer, so leaving it untouched can't earn credit by chance.
+export const startingOrder = (question: QuizQuestion): string[] => {
+  const expected = asList(question.correctAnswer);
+  const order = [...expected];
+  let seed = hashString(`${question.id}:${question.questionText}`);
+  for (let i = order.length - 1; i > 0; i--) {
+    seed = Math.imul(seed ^ (seed >>> 15), 2246822507) >>> 0;
+    const j = seed % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const isSameOrder = order.every((item, i) => item === expected[i]);
+  return isSameOrder ? [...order.slice(1), ...order.slice(0, 1)] : order;
+};
+
+// What a matching question offers for each pair, in an order that doesn't follow the pairs.
+export const matchingChoices = (question: QuizQuestion): string[] => alphabetically((question.pairs || []).map(pair => pair.right));
+
+const creditFor = (question: QuizQuestion, answer?: QuizAnswer): number => {
+  const expected = asList(question.correctAnswer);
+  const given = asList(answer);
+  switch (question.type) {
+    case 'multi_select': {
+      // Each right option chosen earns a share and each wrong one takes a share away, so ticking everything doesn't pay.
+      const right = given.filter(option => expected.some(correct => isSameAnswer(option, correct))).length;
+      return Math.max(0, fractionOf(right - (given.length - right), expected.length));
+    }
+    case 'fill_blank':
+    case 'matching':
+    case 'ordering':
+      // A share for each blank, pair or item that is right.
+      return fractionOf(expected.filter((correct, i) => isSameAnswer(given[i], correct)).length, expected.length);
+    default:
+      return typeof answer === 'string' && isSameAnswer(answer, expected[0]) ? 1 : 0;
+  }
+};
+
+// Sets a question's credit from its grading, preferring the student's override.
+export const applyGrading = (question: QuizQuestion, grading: AnswerGrading): QuizQuestion => {
+  const credit = grading.overrideCredit ?? grading.credit;
+  return { ...question, grading, credit, isCorrect: credit === 1 };
+};
+
+// A question that was never touched, including an ordering question left in its starting order, is unanswered. A short
+// answer is graded here only when it is blank or matches the reference answer; the rest wait for gradeShortAnswers in
+// geminiService.
+export const gradeQuestion = (question: QuizQuestion, userAnswer?: QuizAnswer): QuizQuestion => {
+  const credit = creditFor(question, userAnswer);
+  const { grading: _previousGrading, ...ungraded } = question;
+  const graded = { ...ungraded, userAnswer, credit, isCorrect: credit === 1 };
+  if (question.type !== 'short_answer') return graded;
+  if (credit === 1) return applyGrading(graded, { credit, justification: 'Matches the reference answer.', gradedBy: 'exact-match' });
+  if (typeof userAnswer !== 'string' || !userAnswer.trim()) return applyGrading(graded, { credit: 0, justification: 'Not answered.', gradedBy: 'exact-match' });
+  return graded;
+};
+
+// For questions that went through gradeQuestion.
+export const needsAiGrading = (question: QuizQuestion) => question.type === 'short_answer' && !question.grading;
+
+// Rounded so partial credit doesn't show as 2.3333333333333335.
+export const quizScore = (questions: QuizQuestion[]): number =>
+  Math.round(questions.reduce((total, question) => total + (question.credit ?? (question.isCorrect ? 1 : 0)), 0) * 100) / 100;
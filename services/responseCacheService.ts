@@ -0,0 +1,67 @@
+import { readCachedResponse, writeCachedResponse } from './storageService';
+
+// 'use' reads and fills the cache, 'refresh' skips reading but stores the fresh answer (force regenerate), and
+// 'bypass' leaves the cache alone entirely.
+export type CachePolicy = 'use' | 'refresh' | 'bypass';
+
+export interface CacheOptions {
+  policy?: CachePolicy;
+  onCacheHit?: () => void;
+}
+
+export interface ResponseCacheKey {
+  task: string;
+  templateVersion: string; // Versions of the prompt templates used, so answers to an old prompt aren't served for a new one
+  model: string; // The model and its settings
+  language?: string; // The output language, for answers written in one
+  content: string; // Hashed, never stored
+  variant?: string; // Anything else that changes the answer, e.g. the note length
+}
+
+// cyrb53: a fast 53-bit string hash. Plenty to tell materials apart, and it works outside secure contexts,
+// unlike crypto.subtle.
+const hashContent = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const toStorageKey = ({ task, templateVersion, model, language, content, variant }: ResponseCacheKey) =>
+  [task, templateVersion, model, language ?? '', variant ?? '', hashContent(content)].join(':');
+
+// Answers produce() from the cache when it can. The cache is a shortcut only: if storage fails, the call still
+// goes to the model. Nothing is stored for aborted calls, whose answer may be partial, or for empty answers.
+export const withResponseCache = async <T,>(
+  key: ResponseCacheKey,
+  produce: () => Promise<T>,
+  { policy = 'use', onCacheHit, signal }: CacheOptions & { signal?: AbortSignal } = {}
+): Promise<T> => {
+  if (policy === 'bypass') return produce();
+  const storageKey = toStorageKey(key);
+
+  if (policy === 'use') {
+    const cached = await readCachedResponse(storageKey).catch(error => {
+      console.warn('Could not read the response cache.', error);
+      return undefined;
+    });
+    if (cached) {
+      onCacheHit?.();
+      return cached.value as T;
+    }
+  }
+
+  const value = await produce();
+  const isEmpty = value === '' || (Array.isArray(value) && value.length === 0);
+  if (!signal?.aborted && !isEmpty) {
+    writeCachedResponse({ key: storageKey, value, createdAt: new Date().toISOString() })
+      .catch(error => console.warn('Could not write the response cache.', error));
+  }
+  return value;
+};
@@ -0,0 +1,188 @@
+import { StudyMaterial, PassageCitation } from '../types';
+import { splitIntoChunks } from './chunkingService';
+import { embedTexts } from './geminiService';
+
+const PASSAGE_MAX_CHARS = 1000;
+const DEFAULT_TOP_K = 5;
+const EXCERPT_LENGTH = 160;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const LEXICAL_WEIGHT = 0.4; // Share of the hybrid score taken by BM25 when embeddings are available
+
+export interface Passage {
+  id: number;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  label: string;
+}
+
+interface MaterialIndex {
+  fingerprint: string;
+  passages: Passage[];
+  termFrequencies: Map<string, number>[];
+  documentFrequencies: Map<string, number>;
+  passageLengths: number[];
+  averageLength: number;
+  embeddings?: Promise<number[][] | null>; // Requested on first use
+}
+
+// Indexes are rebuilt whenever the material's text changes, and live for the session.
+const indexCache = new Map<string, MaterialIndex>();
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'as', 'is', 'are',
+  'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'what', 'which', 'who', 'how', 'why', 'when',
+  'where', 'do', 'does', 'did', 'can', 'could', 'would', 'should', 'about', 'into', 'than', 'then', 'so', 'not', 'no',
+  'me', 'my', 'you', 'your', 'we', 'our', 'they', 'their', 'he', 'she', 'his', 'her', 'there', 'here', 'also', 'explain',
+]);
+
+const normalizeTerm = (term: string) => (term.length > 4 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term);
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length > 1 && !STOP_WORDS.has(term)).map(normalizeTerm);
+
+const fingerprintText = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return `${text.length}:${hash}`;
+};
+
+const TIMESTAMP_MARKER_REGEX = /\[((?:\d+:)?\d{1,2}:\d{2})\]/g;
+
+// Labels a transcript passage with the timestamp it starts at, or a range if it runs into later timestamps.
+const labelForTranscript = (text: string, startOffset: number, endOffset: number): string | null => {
+  let first: string | null = null;
+  let last: string | null = null;
+  for (const match of text.slice(0, endOffset).matchAll(TIMESTAMP_MARKER_REGEX)) {
+    if ((match.index ?? 0) <= startOffset || !first) first = match[1];
+    else last = match[1];
+  }
+  if (!first) return null;
+  return last ? `${first}–${last}` : first;
+};
+
+const buildPassages = (material: StudyMaterial): Passage[] => {
+  const text = material.extractedText || '';
+  const ranges = material.sourceLocations && material.sourceLocations.length > 0
+    ? material.sourceLocations.map(location => ({ ...location, label: `${location.kind === 'slide' ? 'Slide' : 'Page'} ${location.index}` }))
+    : [{ startOffset: 0, endOffset: text.length, label: '' }];
+
+  const passages: Passage[] = [];
+  for (const range of ranges) {
+    // Passages never straddle two pages or slides, so each citation points to a single location.
+    for (const chunk of splitIntoChunks(text.slice(range.startOffset, range.endOffset), PASSAGE_MAX_CHARS)) {
+      const startOffset = range.startOffset + chunk.startOffset;
+      const endOffset = range.startOffset + chunk.endOffset;
+      const label = range.label
+        || (material.type === 'youtube' ? labelForTranscript(text, startOffset, endOffset) : null)
+        || `Passage ${passages.length + 1}`;
+      passages.push({ id: passages.length, text: chunk.text, startOffset, endOffset, label });
+    }
+  }
+  return passages;
+};
+
+const getMaterialIndex = (material: StudyMaterial): MaterialIndex => {
+  const fingerprint = fingerprintText(material.extractedText || '');
+  const cached = indexCache.get(material.id);
+  if (cached && cached.fingerprint === fingerprint) return cached;
+
+  const passages = buildPassages(material);
+  const termFrequencies = passages.map(passage => {
+    const frequencies = new Map<string, number>();
+    for (const term of tokenize(passage.text)) frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    return frequencies;
+  });
+  const documentFrequencies = new Map<string, number>();
+  for (const frequencies of termFrequencies) {
+    for (const term of frequencies.keys()) documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+  }
+  const passageLengths = termFrequencies.map(frequencies => Array.from(frequencies.values()).reduce((a, b) => a + b, 0));
+  const averageLength = passageLengths.reduce((a, b) => a + b, 0) / Math.max(1, passageLengths.length);
+
+  const index: MaterialIndex = { fingerprint, passages, termFrequencies, documentFrequencies, passageLengths, averageLength };
+  indexCache.set(material.id, index);
+  return index;
+};
+
+const bm25Score = (index: MaterialIndex, passageId: number, queryTerms: string[]): number => {
+  const frequencies = index.termFrequencies[passageId];
+  const lengthNorm = 1 - BM25_B + BM25_B * (index.passageLengths[passageId] / Math.max(1, index.averageLength));
+  let score = 0;
+  for (const term of new Set(queryTerms)) {
+    const tf = frequencies.get(term);
+    if (!tf) continue;
+    const df = index.documentFrequencies.get(term) || 0;
+    const idf = Math.log(1 + (index.passages.length - df + 0.5) / (df + 0.5));
+    score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+  }
+  return score;
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const getSemanticScores = async (index: MaterialIndex, query: string, signal?: AbortSignal): Promise<number[] | null> => {
+  if (!index.embeddings) index.embeddings = embedTexts(index.passages.map(p => p.text), 'RETRIEVAL_DOCUMENT');
+  const passageVectors = await index.embeddings;
+  if (!passageVectors) return null;
+  const queryVector = (await embedTexts([query], 'RETRIEVAL_QUERY', signal))?.[0];
+  return queryVector ? passageVectors.map(vector => cosineSimilarity(vector, queryVector)) : null;
+};
+
+// Finds the passages of the material most relevant to the query. BM25 is always used; when the
+// embedding API is reachable its similarity is blended in so paraphrased questions still match.
+export const retrievePassages = async (material: StudyMaterial, query: string, topK: number = DEFAULT_TOP_K, signal?: AbortSignal): Promise<Passage[]> => {
+  const index = getMaterialIndex(material);
+  if (index.passages.length <= topK) return index.passages;
+
+  const queryTerms = tokenize(query);
+  const lexicalScores = index.passages.map(passage => bm25Score(index, passage.id, queryTerms));
+  const maxLexical = Math.max(...lexicalScores);
+  const semanticScores = await getSemanticScores(index, query, signal);
+
+  if (!semanticScores && maxLexical === 0) {
+    return index.passages.slice(0, topK); // Nothing matched; the opening of the material is the best guess
+  }
+
+  const scores = index.passages.map((passage, i) => {
+    const lexical = maxLexical > 0 ? lexicalScores[i] / maxLexical : 0;
+    return semanticScores ? LEXICAL_WEIGHT * lexical + (1 - LEXICAL_WEIGHT) * semanticScores[i] : lexical;
+  });
+  return index.passages
+    .map(passage => ({ passage, score: scores[passage.id] }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(({ passage }) => passage);
+};
+
+export const formatPassagesForPrompt = (passages: Passage[]): string =>
+  passages.map((passage, i) => `[${i + 1}] (${passage.label})\n${passage.text}`).join('\n\n');
+
+// Keeps the passages the answer actually cites with [n] markers, numbered as they were in the prompt.
+export const buildCitations = (answer: string, passages: Passage[]): PassageCitation[] => {
+  const markers = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const marker = Number(match[1]);
+    if (marker >= 1 && marker <= passages.length) markers.add(marker);
+  }
+  return Array.from(markers).sort((a, b) => a - b).map(marker => {
+    const passage = passages[marker - 1];
+    const excerpt = passage.text.replace(/\s+/g, ' ').trim();
+    return {
+      marker,
+      label: passage.label,
+      startOffset: passage.startOffset,
+      endOffset: passage.endOffset,
+      excerpt: excerpt.length > EXCERPT_LENGTH ? `${excerpt.substring(0, EXCERPT_LENGTH)}...` : excerpt,
+    };
+  });
+};
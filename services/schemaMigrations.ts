@@ -0,0 +1,71 @@
+import { StudyMaterial, Quiz } from '../types';
+
+// Bump this and add a migration below whenever the persisted shape of StudyMaterial or Quiz changes.
+// Version 0 is the unversioned data written before the library was versioned (including the old localStorage keys).
+export const CURRENT_SCHEMA_VERSION = 1;
+
+type RawRecord = Record<string, any>;
+
+interface Migrations {
+  [fromVersion: number]: (record: RawRecord) => RawRecord;
+}
+
+const MATERIAL_MIGRATIONS: Migrations = {
+  0: record => ({
+    ...record,
+    chatHistory: Array.isArray(record.chatHistory) ? record.chatHistory : [],
+    uploadDate: record.uploadDate || new Date(0).toISOString(),
+  }),
+};
+
+const QUIZ_MIGRATIONS: Migrations = {
+  0: record => ({ ...record, durationSeconds: typeof record.durationSeconds === 'number' ? record.durationSeconds : 0 }),
+};
+
+const MATERIAL_TYPES = ['text', 'youtube', 'file'];
+
+const isObject = (value: unknown): value is RawRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateMaterial = (record: RawRecord): string | null => {
+  if (typeof record.id !== 'string' || !record.id) return 'The material has no id.';
+  if (!MATERIAL_TYPES.includes(record.type)) return `Unknown material type "${record.type}".`;
+  if (typeof record.originalContent !== 'string') return 'The material has no original content.';
+  if (record.extractedText !== undefined && typeof record.extractedText !== 'string') return 'The extracted text is not text.';
+  if (!Array.isArray(record.chatHistory)) return 'The chat history is not a list.';
+  if (record.notes !== undefined && !isObject(record.notes)) return 'The notes are malformed.';
+  if (record.presentationContent !== undefined && !Array.isArray(record.presentationContent?.slides)) return 'The presentation has no slides.';
+  if (record.videoScenes !== undefined && !Array.isArray(record.videoScenes)) return 'The video scenes are not a list.';
+  return null;
+};
+
+const validateQuiz = (record: RawRecord): string | null => {
+  if (typeof record.id !== 'string' || !record.id) return 'The quiz has no id.';
+  if (typeof record.contentId !== 'string') return 'The quiz is not linked to a material.';
+  if (!Array.isArray(record.questions)) return 'The quiz questions are not a list.';
+  return null;
+};
+
+const migrate = <T,>(raw: unknown, migrations: Migrations, validate: (record: RawRecord) => string | null): { record: T; wasMigrated: boolean } => {
+  if (!isObject(raw)) throw new Error('The saved record is not an object.');
+  const version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`It was saved by a newer version of the app (schema v${version}; this version supports up to v${CURRENT_SCHEMA_VERSION}).`);
+  }
+
+  let record: RawRecord = raw;
+  for (let v = version; v < CURRENT_SCHEMA_VERSION; v++) {
+    if (!migrations[v]) throw new Error(`There is no migration from schema v${v}.`);
+    record = migrations[v](record);
+  }
+  const problem = validate(record);
+  if (problem) throw new Error(problem);
+
+  const { schemaVersion: _schemaVersion, ...data } = record;
+  return { record: data as T, wasMigrated: version < CURRENT_SCHEMA_VERSION };
+};
+
+// Each of these upgrades a saved record to the current schema, throwing with a readable reason if it can't be used.
+export const migrateMaterial = (raw: unknown) => migrate<StudyMaterial>(raw, MATERIAL_MIGRATIONS, validateMaterial);
+export const migrateQuiz = (raw: unknown) => migrate<Quiz>(raw, QUIZ_MIGRATIONS, validateQuiz);
+
+export const withSchemaVersion = <T extends object>(record: T): T & { schemaVersion: number } => ({ ...record, schemaVersion: CURRENT_SCHEMA_VERSION });
@@ -0,0 +1,456 @@
+import { StudyMaterial, Quiz } from '../types';
+import { LOCAL_STORAGE_CONTENT_KEY, LOCAL_STORAGE_QUIZZES_KEY } from '../constants';
+import { migrateMaterial, migrateQuiz, withSchemaVersion } from './schemaMigrations';
+
+const DB_NAME = 'ameenaAi';
+const DB_VERSION = 4;
+const MATERIALS_STORE = 'materials';
+const QUIZZES_STORE = 'quizzes';
+const BLOBS_STORE = 'blobs';
+const QUARANTINE_STORE = 'quarantine'; // Added in DB version 2
+const RESPONSE_CACHE_STORE = 'responseCache'; // Added in DB version 3
+const MAX_CACHED_RESPONSES = 500;
+const USAGE_STORE = 'usage'; // Added in DB version 4
+
+// Images are kept out of material records and referenced as "idb-image:<key>" instead of inline data URLs.
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+interface StoredBlob {
+  key: string;
+  materialId: string;
+  blob: Blob;
+}
+
+export interface QuarantinedItem {
+  id: string;
+  kind: 'material' | 'quiz';
+  label: string; // Best-effort name for the item, shown in the recovery list
+  reason: string; // Why it couldn't be loaded
+  payload: unknown; // The record exactly as it was saved, or the raw text if it couldn't be parsed
+  quarantinedAt: string;
+}
+
+export interface CachedResponse {
+  key: string;
+  value: unknown;
+  createdAt: string;
+}
+
+// AI usage totals for one material, feature and model on one day. Counts are added to, never overwritten.
+export interface UsageRecord {
+  key: string;
+  day: string; // YYYY-MM-DD, local time
+  materialId?: string;
+  feature: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+export interface StoredLibrary {
+  materials: StudyMaterial[];
+  quizzes: Quiz[];
+  quarantined: QuarantinedItem[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const objectUrlCache = new Map<string, Promise<string | null>>();
+// Material id and data URL -> ref, so an image is only written once per session. Keyed by material too, because
+// each material owns its blobs: two materials with the same image each get a copy, so deleting or regenerating one
+// can't take the other's images with it.
+const storedImageRefs = new Map<string, string>();
+const storedImageKey = (materialId: string, dataUrl: string) => `${materialId}|${dataUrl}`;
+
+const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Storage transaction was aborted.'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser does not support IndexedDB, so materials cannot be saved.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MATERIALS_STORE)) db.createObjectStore(MATERIALS_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(QUIZZES_STORE)) db.createObjectStore(QUIZZES_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+        db.createObjectStore(BLOBS_STORE, { keyPath: 'key' }).createIndex('materialId', 'materialId');
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(RESPONSE_CACHE_STORE)) {
+        db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' }).createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE)) db.createObjectStore(USAGE_STORE, { keyPath: 'key' }).createIndex('day', 'day');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Storage is blocked by another open tab of the app. Close it and reload.'));
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const isStoredImageRef = (url?: string): boolean => !!url && url.startsWith(IMAGE_REF_PREFIX);
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64Data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(base64Data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Replaces every inline data URL image in the material with a ref, collecting the blobs that need writing.
+const separateImages = (material: StudyMaterial): { record: StudyMaterial; newBlobs: StoredBlob[]; newRefs: Map<string, string>; refs: Set<string> } => {
+  const newBlobs: StoredBlob[] = [];
+  const newRefs = new Map<string, string>();
+  const refs = new Set<string>();
+  const toRef = (url?: string): string | undefined => {
+    if (!url) return url;
+    if (isStoredImageRef(url)) {
+      refs.add(url);
+      return url;
+    }
+    if (!url.startsWith('data:')) return url; // Remote fallback images are small enough to keep inline
+    let ref = storedImageRefs.get(storedImageKey(material.id, url)) || newRefs.get(url);
+    if (!ref) {
+      ref = `${IMAGE_REF_PREFIX}${material.id}/${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+      newBlobs.push({ key: ref.slice(IMAGE_REF_PREFIX.length), materialId: material.id, blob: dataUrlToBlob(url) });
+      newRefs.set(url, ref);
+    }
+    refs.add(ref);
+    return ref;
+  };
+
+  const record: StudyMaterial = {
+    ...material,
+    sourceImageUrl: toRef(material.sourceImageUrl),
+    presentationContent: material.presentationContent && {
+      ...material.presentationContent,
+      slides: material.presentationContent.slides.map(slide => ({ ...slide, imageUrl: toRef(slide.imageUrl) })),
+    },
+    videoScenes: material.videoScenes?.map(scene => ({ ...scene, imageUrl: toRef(scene.imageUrl) })),
+  };
+  return { record, newBlobs, newRefs, refs };
+};
+
+const writeMaterials = async (materials: StudyMaterial[]): Promise<void> => {
+  const prepared = materials.map(material => ({ material, ...separateImages(material) }));
+  const db = await openDatabase();
+  const transaction = db.transaction([MATERIALS_STORE, BLOBS_STORE], 'readwrite');
+  const materialsStore = transaction.objectStore(MATERIALS_STORE);
+  const blobsStore = transaction.objectStore(BLOBS_STORE);
+
+  for (const { material, record, newBlobs, refs } of prepared) {
+    materialsStore.put(withSchemaVersion(record));
+    newBlobs.forEach(blob => blobsStore.put(blob));
+    // Drop blobs of images the material no longer uses, e.g. after regenerating a presentation.
+    const keysRequest = blobsStore.index('materialId').getAllKeys(material.id);
+    keysRequest.onsuccess = () => {
+      for (const key of keysRequest.result) {
+        if (!refs.has(`${IMAGE_REF_PREFIX}${key}`)) blobsStore.delete(key);
+      }
+    };
+  }
+  await transactionDone(transaction);
+
+  // Only remember refs once the blobs are safely written, so a failed save is retried next time.
+  prepared.forEach(({ material, newRefs }) => newRefs.forEach((ref, url) => storedImageRefs.set(storedImageKey(material.id, url), ref)));
+};
+
+export const saveMaterial = (material: StudyMaterial): Promise<void> => writeMaterials([material]);
+
+const writeQuizzes = async (quizzes: Quiz[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(QUIZZES_STORE, 'readwrite');
+  quizzes.forEach(quiz => transaction.objectStore(QUIZZES_STORE).put(withSchemaVersion(quiz)));
+  await transactionDone(transaction);
+};
+
+export const saveQuiz = (quiz: Quiz): Promise<void> => writeQuizzes([quiz]);
+
+// Permanently removes a material together with its quiz results and stored images.
+export const deleteMaterial = async (materialId: string, quizIds: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([MATERIALS_STORE, QUIZZES_STORE, BLOBS_STORE], 'readwrite');
+  transaction.objectStore(MATERIALS_STORE).delete(materialId);
+  quizIds.forEach(id => transaction.objectStore(QUIZZES_STORE).delete(id));
+  const blobsStore = transaction.objectStore(BLOBS_STORE);
+  const keysRequest = blobsStore.index('materialId').getAllKeys(materialId);
+  keysRequest.onsuccess = () => keysRequest.result.forEach(key => blobsStore.delete(key));
+  await transactionDone(transaction);
+
+  const refPrefix = `${IMAGE_REF_PREFIX}${materialId}/`;
+  for (const [ref, objectUrl] of objectUrlCache) {
+    if (!ref.startsWith(refPrefix)) continue;
+    objectUrlCache.delete(ref);
+    objectUrl.then(url => url && URL.revokeObjectURL(url));
+  }
+  for (const [key, ref] of storedImageRefs) {
+    if (ref.startsWith(refPrefix)) storedImageRefs.delete(key);
+  }
+};
+
+export const deleteQuiz = async (quizId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(QUIZZES_STORE, 'readwrite');
+  transaction.objectStore(QUIZZES_STORE).delete(quizId);
+  await transactionDone(transaction);
+};
+
+const describePayload = (kind: QuarantinedItem['kind'], payload: unknown): string => {
+  if (typeof payload === 'string') return kind === 'material' ? 'Saved materials (unreadable)' : 'Saved quiz results (unreadable)';
+  const record = (payload || {}) as Record<string, any>;
+  if (kind === 'quiz') return `Quiz result${record.timestamp ? ` from ${new Date(record.timestamp).toLocaleDateString()}` : ''}`;
+  return record.title || record.fileName || record.originalContent?.toString().slice(0, 60) || 'Untitled material';
+};
+
+// Moves records that can't be loaded out of the live stores, keeping them verbatim so they can be recovered.
+const quarantineRecords = async (entries: { kind: QuarantinedItem['kind']; payload: unknown; reason: string; liveKey?: IDBValidKey }[]): Promise<QuarantinedItem[]> => {
+  if (entries.length === 0) return [];
+  const items: QuarantinedItem[] = entries.map(({ kind, payload, reason }) => ({
+    id: `quarantine_${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`,
+    kind,
+    label: describePayload(kind, payload),
+    reason,
+    payload,
+    quarantinedAt: new Date().toISOString(),
+  }));
+  const db = await openDatabase();
+  const transaction = db.transaction([QUARANTINE_STORE, MATERIALS_STORE, QUIZZES_STORE], 'readwrite');
+  items.forEach(item => transaction.objectStore(QUARANTINE_STORE).put(item));
+  entries.forEach(({ kind, liveKey }) => {
+    if (liveKey !== undefined) transaction.objectStore(kind === 'material' ? MATERIALS_STORE : QUIZZES_STORE).delete(liveKey);
+  });
+  await transactionDone(transaction);
+  return items;
+};
+
+const migrateRecords = <T,>(kind: QuarantinedItem['kind'], rawRecords: unknown[], migrateRecord: (raw: unknown) => { record: T; wasMigrated: boolean }) => {
+  const records: T[] = [];
+  const migrated: T[] = [];
+  const failures: { kind: QuarantinedItem['kind']; payload: unknown; reason: string }[] = [];
+  for (const raw of rawRecords) {
+    try {
+      const { record, wasMigrated } = migrateRecord(raw);
+      records.push(record);
+      if (wasMigrated) migrated.push(record);
+    } catch (error: any) {
+      failures.push({ kind, payload: raw, reason: error.message });
+    }
+  }
+  return { records, migrated, failures };
+};
+
+// Moves the library out of the old localStorage keys. A key is only removed once its data is safely in IndexedDB,
+// either as live records or, if it can't be read, in quarantine.
+const migrateFromLocalStorage = async (): Promise<void> => {
+  const legacyKeys = [
+    { key: LOCAL_STORAGE_CONTENT_KEY, kind: 'material' as const },
+    { key: LOCAL_STORAGE_QUIZZES_KEY, kind: 'quiz' as const },
+  ];
+  for (const { key, kind } of legacyKeys) {
+    const saved = localStorage.getItem(key);
+    if (saved === null) continue;
+    try {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(saved);
+      } catch {
+        parsed = undefined;
+      }
+      if (!Array.isArray(parsed)) {
+        await quarantineRecords([{ kind, payload: saved, reason: 'The saved data is not valid JSON.' }]);
+      } else if (kind === 'material') {
+        const { records, failures } = migrateRecords(kind, parsed, migrateMaterial);
+        await writeMaterials(records);
+        await quarantineRecords(failures);
+      } else {
+        const { records, failures } = migrateRecords(kind, parsed, migrateQuiz);
+        await writeQuizzes(records);
+        await quarantineRecords(failures);
+      }
+      localStorage.removeItem(key);
+    } catch (error) {
+      console.error(`Failed to migrate ${key} from localStorage:`, error);
+    }
+  }
+};
+
+export const loadLibrary = async (): Promise<StoredLibrary> => {
+  await migrateFromLocalStorage();
+  const db = await openDatabase();
+  const transaction = db.transaction([MATERIALS_STORE, QUIZZES_STORE, QUARANTINE_STORE], 'readonly');
+  const [rawMaterials, rawQuizzes, quarantined] = await Promise.all([
+    promisifyRequest<unknown[]>(transaction.objectStore(MATERIALS_STORE).getAll()),
+    promisifyRequest<unknown[]>(transaction.objectStore(QUIZZES_STORE).getAll()),
+    promisifyRequest<QuarantinedItem[]>(transaction.objectStore(QUARANTINE_STORE).getAll()),
+  ]);
+
+  const materials = migrateRecords('material', rawMaterials, migrateMaterial);
+  const quizzes = migrateRecords('quiz', rawQuizzes, migrateQuiz);
+  // Upgraded records are written back so each migration only runs once.
+  await writeMaterials(materials.migrated);
+  await writeQuizzes(quizzes.migrated);
+  const liveKeyOf = (payload: unknown) => {
+    const id = (payload as { id?: IDBValidKey } | null)?.id;
+    return id ?? undefined;
+  };
+  const newlyQuarantined = await quarantineRecords(
+    [...materials.failures, ...quizzes.failures].map(failure => ({ ...failure, liveKey: liveKeyOf(failure.payload) }))
+  );
+
+  materials.records.sort((a, b) => new Date(a.uploadDate).getTime() - new Date(b.uploadDate).getTime());
+  return { materials: materials.records, quizzes: quizzes.records, quarantined: [...quarantined, ...newlyQuarantined] };
+};
+
+// Tries to load a quarantined record again, e.g. after updating the app. Throws with the reason if it still can't be used.
+export const restoreQuarantinedItem = async (id: string): Promise<{ material?: StudyMaterial; quiz?: Quiz }> => {
+  const db = await openDatabase();
+  const item = await promisifyRequest<QuarantinedItem | undefined>(db.transaction(QUARANTINE_STORE, 'readonly').objectStore(QUARANTINE_STORE).get(id));
+  if (!item) throw new Error('This item is no longer in quarantine.');
+  if (typeof item.payload === 'string') throw new Error('This data is unreadable and can only be downloaded.');
+
+  const restored = item.kind === 'material'
+    ? { material: migrateMaterial(item.payload).record }
+    : { quiz: migrateQuiz(item.payload).record };
+  if (restored.material) await writeMaterials([restored.material]);
+  if (restored.quiz) await writeQuizzes([restored.quiz]);
+  await discardQuarantinedItem(id);
+  return restored;
+};
+
+export const discardQuarantinedItem = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(QUARANTINE_STORE, 'readwrite');
+  transaction.objectStore(QUARANTINE_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+const loadImageBlob = async (ref: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const stored = await promisifyRequest<StoredBlob | undefined>(
+    db.transaction(BLOBS_STORE, 'readonly').objectStore(BLOBS_STORE).get(ref.slice(IMAGE_REF_PREFIX.length))
+  );
+  return stored?.blob || null;
+};
+
+// Resolves an image ref to an object URL, loading the blob on first use. Other URLs are returned unchanged.
+export const resolveImageUrl = (url: string): Promise<string | null> => {
+  if (!isStoredImageRef(url)) return Promise.resolve(url);
+  let cached = objectUrlCache.get(url);
+  if (!cached) {
+    cached = loadImageBlob(url)
+      .then(blob => (blob ? URL.createObjectURL(blob) : null))
+      .catch(error => {
+        console.error('Failed to load stored image:', error);
+        objectUrlCache.delete(url);
+        return null;
+      });
+    objectUrlCache.set(url, cached);
+  }
+  return cached;
+};
+
+// Returns the bytes of a stored or inline image. Remote URLs have no local bytes and give null.
+export const getImageBlob = async (url: string): Promise<Blob | null> => {
+  if (isStoredImageRef(url)) return loadImageBlob(url);
+  return url.startsWith('data:') ? dataUrlToBlob(url) : null;
+};
+
+// For consumers that need the image bytes inline, such as the PPTX export.
+export const resolveImageDataUrl = async (url: string): Promise<string | null> => {
+  if (!isStoredImageRef(url)) return url;
+  const blob = await loadImageBlob(url);
+  return blob ? blobToDataUrl(blob) : null;
+};
+
+// --- AI response cache ---
+
+export const readCachedResponse = async (key: string): Promise<CachedResponse | undefined> => {
+  const db = await openDatabase();
+  return promisifyRequest<CachedResponse | undefined>(db.transaction(RESPONSE_CACHE_STORE).objectStore(RESPONSE_CACHE_STORE).get(key));
+};
+
+// Keeps the newest MAX_CACHED_RESPONSES entries; older ones are evicted as new ones arrive.
+export const writeCachedResponse = async (entry: CachedResponse): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+  const store = transaction.objectStore(RESPONSE_CACHE_STORE);
+  store.put(entry);
+  const countRequest = store.count();
+  countRequest.onsuccess = () => {
+    let excess = countRequest.result - MAX_CACHED_RESPONSES;
+    if (excess <= 0) return;
+    const cursorRequest = store.index('createdAt').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess-- <= 0) return;
+      cursor.delete();
+      cursor.continue();
+    };
+  };
+  await transactionDone(transaction);
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+  transaction.objectStore(RESPONSE_CACHE_STORE).clear();
+  await transactionDone(transaction);
+};
+
+// --- AI usage ---
+
+// Adds the counts to the record with the same key, creating it if needed, in one transaction so concurrent calls
+// can't lose each other's counts.
+export const addUsage = async (usage: UsageRecord): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(USAGE_STORE, 'readwrite');
+  const store = transaction.objectStore(USAGE_STORE);
+  const getRequest = store.get(usage.key);
+  getRequest.onsuccess = () => {
+    const existing = getRequest.result as UsageRecord | undefined;
+    store.put(existing ? {
+      ...existing,
+      requests: existing.requests + usage.requests,
+      inputTokens: existing.inputTokens + usage.inputTokens,
+      outputTokens: existing.outputTokens + usage.outputTokens,
+      images: existing.images + usage.images,
+      costUsd: existing.costUsd + usage.costUsd,
+    } : usage);
+  };
+  await transactionDone(transaction);
+};
+
+// Records from the given day onwards, or all of them.
+export const loadUsage = async (sinceDay?: string): Promise<UsageRecord[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(USAGE_STORE).objectStore(USAGE_STORE).index('day');
+  return promisifyRequest<UsageRecord[]>(index.getAll(sinceDay ? IDBKeyRange.lowerBound(sinceDay) : undefined));
+};
@@ -0,0 +1,154 @@
+import { JsonSchema, Prompt, AiServiceError } from './llm';
+
+// Models don't always honour a response schema, so every structured answer is parsed, checked against its schema
+// (plus any checks the schema can't express), and the parts that fail are sent back to the model with the
+// problems listed. Whatever still fails after that is dropped from arrays and reported, or rejected for objects.
+
+export interface DroppedItem {
+  item: unknown;
+  errors: string[];
+}
+
+export interface StructuredOutputReport {
+  repairedCount: number;
+  dropped: DroppedItem[];
+}
+
+export interface StructuredRequest<T> {
+  prompt: Prompt;
+  schema: JsonSchema;
+  generate: (prompt: Prompt) => Promise<string>;
+  normalize?: (value: T) => T; // Fixes what can be fixed locally before validating, e.g. an answer's letter case
+  check?: (value: T) => string[]; // Checks the schema can't express. For array schemas it runs per item.
+  maxRepairs?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+export const validateJson = (value: unknown, schema: JsonSchema, path: string = '$'): string[] => {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: expected an object, got ${describe(value)}`];
+      const record = value as Record<string, unknown>;
+      const errors = (schema.required || []).filter(key => record[key] === undefined || record[key] === null).map(key => `${path}.${key}: is required`);
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined && record[key] !== null) errors.push(...validateJson(record[key], propertySchema, `${path}.${key}`));
+      }
+      return errors;
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected an array, got ${describe(value)}`];
+      return schema.items ? value.flatMap((item, i) => validateJson(item, schema.items!, `${path}[${i}]`)) : [];
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected a string, got ${describe(value)}`];
+      return schema.enum && !schema.enum.includes(value) ? [`${path}: must be one of ${schema.enum.map(option => `"${option}"`).join(', ')}`] : [];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path}: expected a number, got ${describe(value)}`];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path}: expected an integer, got ${describe(value)}`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected a boolean, got ${describe(value)}`];
+  }
+};
+
+// Strips a markdown fence before parsing. The text is otherwise left alone: malformed JSON goes back to the model
+// rather than being patched, which could change what is inside strings.
+export const parseJsonFromText = (text: string): unknown => {
+  let jsonStr = text.trim();
+  const match = jsonStr.match(/^```(\w*)?\s*\n?(.*?)\n?\s*```$/s);
+  if (match && match[2]) jsonStr = match[2].trim();
+  return JSON.parse(jsonStr);
+};
+
+const appendToPrompt = (prompt: Prompt, text: string): Prompt =>
+  typeof prompt === 'string' ? `${prompt}\n\n---\n\n${text}` : [...prompt, { text }];
+
+const listErrors = (errors: string[]) => errors.map(error => `- ${error}`).join('\n');
+
+// Asks again until the response parses at all; shape problems are handled by the callers below.
+const generateParsed = async <T,>(request: StructuredRequest<T>): Promise<unknown> => {
+  const maxRepairs = request.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  let prompt = request.prompt;
+  for (let attempt = 0; ; attempt++) {
+    const text = await request.generate(prompt);
+    try {
+      return parseJsonFromText(text);
+    } catch (error) {
+      console.warn(`Structured response was not valid JSON (attempt ${attempt + 1}).`, error, text);
+      if (attempt >= maxRepairs) throw new AiServiceError('invalid-response', undefined, { cause: error });
+      prompt = appendToPrompt(request.prompt, `Your previous reply could not be parsed as JSON (${(error as Error).message}). Reply again with valid JSON only, and no other text.`);
+    }
+  }
+};
+
+const problemsOf = <T,>(value: unknown, schema: JsonSchema, request: StructuredRequest<T>): { value: T; errors: string[] } => {
+  const schemaErrors = validateJson(value, schema);
+  if (schemaErrors.length > 0) return { value: value as T, errors: schemaErrors };
+  const normalized = request.normalize ? request.normalize(value as T) : (value as T);
+  return { value: normalized, errors: request.check?.(normalized) || [] };
+};
+
+// Sends a repair request and returns its parsed reply, or undefined when the repair itself failed.
+const requestRepair = async <T,>(request: StructuredRequest<T>, instruction: string): Promise<unknown> => {
+  try {
+    return parseJsonFromText(await request.generate(appendToPrompt(request.prompt, instruction)));
+  } catch (error) {
+    request.signal?.throwIfAborted();
+    console.warn('Repair request failed.', error);
+    return undefined;
+  }
+};
+
+// For array schemas: valid items are kept, invalid ones are repaired together, and the rest are dropped.
+export const generateStructuredList = async <T,>(request: StructuredRequest<T>): Promise<{ items: T[]; report: StructuredOutputReport }> => {
+  const itemSchema = request.schema.items || { type: 'object' };
+  const parsed = await generateParsed(request);
+  if (!Array.isArray(parsed)) throw new AiServiceError('invalid-response', `Expected a list from the AI, got ${describe(parsed)}.`);
+
+  const results: (T | undefined)[] = [];
+  let pending: { index: number; item: unknown; errors: string[] }[] = [];
+  parsed.forEach((item, index) => {
+    const { value, errors } = problemsOf(item, itemSchema, request);
+    if (errors.length === 0) results[index] = value;
+    else pending.push({ index, item, errors });
+  });
+
+  let repairedCount = 0;
+  for (let attempt = 0; attempt < (request.maxRepairs ?? DEFAULT_MAX_REPAIRS) && pending.length > 0; attempt++) {
+    const problems = pending.map((entry, i) => `Item ${i + 1}:\n${listErrors(entry.errors)}`).join('\n\n');
+    const repaired = await requestRepair(request, `Some items of your previous reply were invalid. Fix them and reply with a JSON array of the ${pending.length} corrected items, in the same order.\n\nProblems:\n${problems}\n\nItems to fix:\n${JSON.stringify(pending.map(entry => entry.item))}`);
+    if (!Array.isArray(repaired)) continue;
+    pending = pending.flatMap((entry, i) => {
+      if (repaired[i] === undefined) return [entry];
+      const { value, errors } = problemsOf(repaired[i], itemSchema, request);
+      if (errors.length > 0) return [{ ...entry, item: repaired[i], errors }];
+      results[entry.index] = value;
+      repairedCount++;
+      return [];
+    });
+  }
+
+  const report: StructuredOutputReport = { repairedCount, dropped: pending.map(({ item, errors }) => ({ item, errors })) };
+  if (report.dropped.length > 0) console.warn(`Dropped ${report.dropped.length} invalid item(s) from a structured response.`, report.dropped);
+  return { items: results.filter((item): item is T => item !== undefined), report };
+};
+
+// For object schemas: the whole object is repaired, and rejected if it is still invalid.
+export const generateStructuredObject = async <T,>(request: StructuredRequest<T>): Promise<{ value: T; report: StructuredOutputReport }> => {
+  let { value, errors } = problemsOf(await generateParsed(request), request.schema, request);
+  let repairedCount = 0;
+  for (let attempt = 0; attempt < (request.maxRepairs ?? DEFAULT_MAX_REPAIRS) && errors.length > 0; attempt++) {
+    const repaired = await requestRepair(request, `Your previous reply was invalid. Reply with the corrected JSON only.\n\nProblems:\n${listErrors(errors)}\n\nPrevious reply:\n${JSON.stringify(value)}`);
+    if (repaired === undefined) continue;
+    ({ value, errors } = problemsOf(repaired, request.schema, request));
+    if (errors.length === 0) repairedCount++;
+  }
+  if (errors.length > 0) {
+    console.warn('Structured response is still invalid after repair.', errors, value);
+    throw new AiServiceError('invalid-response', `The AI response was incomplete: ${errors.slice(0, 3).join('; ')}`);
+  }
+  return { value, report: { repairedCount, dropped: [] } };
+};
@@ -0,0 +1,159 @@
+import { MODEL_PRICES_USD, BUDGETED_FEATURES, USAGE_BUDGET_STORAGE_KEY } from '../constants';
+import { onUsage, UsageReport, AiServiceError } from './llm';
+import { addUsage, loadUsage, UsageRecord } from './storageService';
+
+// Who a model call was made for. Features are the generation job kinds plus 'chat' and 'quiz'; calls
+// nobody tagged are recorded as 'other'.
+export interface UsageTag {
+  feature: string;
+  materialId?: string;
+}
+
+// Spending limits for the current calendar month, in USD. null means no limit.
+export interface UsageBudget {
+  softLimitUsd: number | null; // Past this, budgeted features ask before starting
+  hardLimitUsd: number | null; // Past this, budgeted features refuse to start
+}
+
+export interface BudgetCheck {
+  status: 'ok' | 'warning' | 'blocked';
+  spentUsd: number;
+  budget: UsageBudget;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byFeature: Record<string, UsageTotals>;
+  byMaterial: Record<string, UsageTotals>; // Untagged calls are under ''
+  byDay: Record<string, UsageTotals>;
+}
+
+const NO_BUDGET: UsageBudget = { softLimitUsd: null, hardLimitUsd: null };
+
+// Keyed by the call's AbortSignal, which is the one thing every layer already passes along.
+const tags = new WeakMap<AbortSignal, UsageTag>();
+const changeListeners = new Set<() => void>();
+let isTracking = false;
+
+export const tagUsage = (signal: AbortSignal, tag: UsageTag) => {
+  tags.set(signal, tag);
+};
+
+// Returns a function that removes the listener.
+export const onUsageChange = (listener: () => void): (() => void) => {
+  changeListeners.add(listener);
+  return () => { changeListeners.delete(listener); };
+};
+
+const toDay = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const startOfMonth = (): string => {
+  const now = new Date();
+  return toDay(new Date(now.getFullYear(), now.getMonth(), 1));
+};
+
+const costOf = ({ model, inputTokens, outputTokens, images }: UsageReport): number => {
+  const price = MODEL_PRICES_USD[model];
+  if (!price) return 0;
+  return (inputTokens * (price.inputPerMillionTokens || 0) + outputTokens * (price.outputPerMillionTokens || 0)) / 1_000_000
+    + images * (price.perImage || 0);
+};
+
+const record = (usage: UsageReport, signal?: AbortSignal) => {
+  const tag = signal ? tags.get(signal) : undefined;
+  const day = toDay(new Date());
+  const feature = tag?.feature || 'other';
+  addUsage({
+    key: [day, tag?.materialId || '', feature, usage.model].join('|'),
+    day,
+    materialId: tag?.materialId,
+    feature,
+    model: usage.model,
+    requests: 1,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    images: usage.images,
+    costUsd: costOf(usage),
+  })
+    .then(() => changeListeners.forEach(listener => listener()))
+    .catch(error => console.warn('Could not record AI usage.', error));
+};
+
+// Called once at startup; from then on every usage report from a provider is stored.
+export const startUsageTracking = () => {
+  if (isTracking) return;
+  isTracking = true;
+  onUsage(record);
+};
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, inputTokens: 0, outputTokens: 0, images: 0, costUsd: 0 });
+
+const addTo = (totals: UsageTotals, record: UsageRecord) => {
+  totals.requests += record.requests;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.images += record.images;
+  totals.costUsd += record.costUsd;
+};
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+  const summary: UsageSummary = { total: emptyTotals(), byFeature: {}, byMaterial: {}, byDay: {} };
+  for (const record of records) {
+    addTo(summary.total, record);
+    addTo(summary.byFeature[record.feature] ??= emptyTotals(), record);
+    addTo(summary.byMaterial[record.materialId || ''] ??= emptyTotals(), record);
+    addTo(summary.byDay[record.day] ??= emptyTotals(), record);
+  }
+  return summary;
+};
+
+export const loadUsageSummary = async (sinceDay?: string): Promise<UsageSummary> => summarizeUsage(await loadUsage(sinceDay));
+
+export const getUsageBudget = (): UsageBudget => {
+  try {
+    const saved = localStorage.getItem(USAGE_BUDGET_STORAGE_KEY);
+    return saved ? { ...NO_BUDGET, ...JSON.parse(saved) } : NO_BUDGET;
+  } catch {
+    return NO_BUDGET;
+  }
+};
+
+export const saveUsageBudget = (budget: UsageBudget) => {
+  localStorage.setItem(USAGE_BUDGET_STORAGE_KEY, JSON.stringify(budget));
+  changeListeners.forEach(listener => listener());
+};
+
+export const checkBudget = async (): Promise<BudgetCheck> => {
+  const budget = getUsageBudget();
+  const spentUsd = (await loadUsageSummary(startOfMonth())).total.costUsd;
+  const status = budget.hardLimitUsd !== null && spentUsd >= budget.hardLimitUsd ? 'blocked'
+    : budget.softLimitUsd !== null && spentUsd >= budget.softLimitUsd ? 'warning'
+    : 'ok';
+  return { status, spentUsd, budget };
+};
+
+export const isBudgetedFeature = (feature: string): boolean => BUDGETED_FEATURES.includes(feature);
+
+export const formatUsd = (amount: number): string => `$${amount > 0 && amount < 0.01 ? amount.toFixed(4) : amount.toFixed(2)}`;
+
+// Refuses to start a budgeted feature once the hard budget is spent. If usage can't be read, the call goes ahead:
+// losing the budget check is better than losing the feature.
+export const assertWithinBudget = async (feature: string): Promise<void> => {
+  if (!isBudgetedFeature(feature)) return;
+  const check = await checkBudget().catch(error => {
+    console.warn('Could not check the AI budget.', error);
+    return null;
+  });
+  if (check?.status === 'blocked') {
+    throw new AiServiceError('budget-exceeded', `This month's AI spending (${formatUsd(check.spentUsd)}) has reached the ${formatUsd(check.budget.hardLimitUsd!)} budget.`);
+  }
+};
@@ -1,5 +1,18 @@
 
 
+export interface SourceLocation {
+  kind: 'page' | 'slide';
+  index: number; // 1-based page or slide number in the original file
+  startOffset: number; // Inclusive offset into extractedText
+  endOffset: number; // Exclusive offset into extractedText
+}
+
+export interface TranscriptSegment {
+  start: number; // Seconds from the start of the video
+  end: number;
+  text: string;
+}
+
 export interface UploadedContent {
   id: string;
   type: 'text' | 'youtube' | 'file'; // Added 'file'
@@ -7,10 +20,16 @@ export interface UploadedContent {
   fileName?: string; // Original name of the uploaded file
   fileMimeType?: string; // Mime type of the uploaded file
   extractedText?: string; // Text extracted, transcript, or simulated text from file
+  sourceLocations?: SourceLocation[]; // Maps ranges of extractedText back to pages or slides of the original file
+  extractionWarnings?: string[]; // Problems found while extracting text (e.g. pages without a text layer)
+  transcriptSegments?: TranscriptSegment[]; // Parsed caption track for 'youtube' content
+  sourceImageUrl?: string; // Data URL of an uploaded image, kept so it can be shown next to its transcription
   title?: string;
   subject?: string;
   topic?: string;
   difficulty?: 'Easy' | 'Medium' | 'Hard';
+  outputLanguage?: string; // Language code the AI writes in for this material; unset follows the app-wide setting
+  translationOf?: string; // Id of the material this one is a translation of, into outputLanguage
   uploadDate: string;
   aiExplanation?: string; // Add aiExplanation to base interface
 }
@@ -26,23 +45,53 @@ export interface AiGeneratedNotes {
   [NoteLength.DETAILED]?: string;
 }
 
+export type QuizQuestionType = 'mcq' | 'true_false' | 'multi_select' | 'fill_blank' | 'matching' | 'ordering' | 'short_answer';
+
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+// Text for single-answer questions; one entry per option chosen, blank filled, pair matched or item placed otherwise.
+export type QuizAnswer = string | string[];
+
+// How a short answer was judged. The student can flag the grade for review or set the credit themselves.
+export interface AnswerGrading {
+  credit: number; // 0 to 1, as judged
+  justification: string;
+  gradedBy: 'exact-match' | 'ai';
+  templateVersion?: string; // The prompt template and model settings of an AI grade
+  modelSettings?: string;
+  flaggedForReview?: boolean;
+  overrideCredit?: number; // Replaces the judged credit when set
+}
+
 export interface QuizQuestion {
   id: string;
-  type: 'mcq' | 'short_answer';
-  questionText: string;
-  options?: string[]; // For MCQ
-  correctAnswer: string | string[]; // string for SA, string for MCQ option, string[] for multiple correct MCQs (if ever needed)
-  userAnswer?: string;
+  type: QuizQuestionType;
+  questionText: string; // For fill_blank, a sentence with each blank written as ___
+  options?: string[]; // For mcq and multi_select
+  pairs?: MatchingPair[]; // For matching, each left item with the right item it belongs to
+  // mcq: the right option. true_false: "True" or "False". short_answer: the expected answer. multi_select: every right
+  // option. fill_blank: the answer to each blank, in order. ordering: the items in their right order. matching: the
+  // right item of each pair, in the order of pairs.
+  correctAnswer: string | string[];
+  rubric?: string; // For short_answer, the key points a full answer makes
+  userAnswer?: QuizAnswer; // For matching, the right item chosen for each pair, in the order of pairs
   isCorrect?: boolean;
+  credit?: number; // 0 to 1; below 1 but above 0 is partial credit
+  grading?: AnswerGrading; // For short_answer
 }
 
 export interface Quiz {
   id:string;
   contentId: string;
   questions: QuizQuestion[];
-  score?: number;
+  score?: number; // The sum of the questions' credit, so partial credit can make it fractional
   timestamp: string;
   durationSeconds: number; // Duration of the quiz in seconds
+  templateVersion?: string; // The prompt template versions the questions were generated with
+  modelSettings?: string; // The model and settings the questions were generated with
 }
 
 export interface GroundingSource {
@@ -50,12 +99,23 @@ export interface GroundingSource {
   title: string;
 }
 
+export interface PassageCitation {
+  marker: number; // The [n] marker used in the answer text
+  label: string; // Where the passage is in the original, e.g. "Page 3", "Slide 2" or "4:05"
+  startOffset: number; // Range of the passage in the material's extractedText
+  endOffset: number;
+  excerpt: string;
+}
+
 export interface ChatMessage {
   id:string;
   sender: 'user' | 'ai';
   text: string;
   timestamp: string;
   groundingSources?: GroundingSource[];
+  citations?: PassageCitation[]; // Passages of the study material the answer was grounded on
+  templateVersion?: string; // The chat prompt template version an AI answer was generated with
+  modelSettings?: string; // The model and settings an AI answer was generated with
 }
 
 export interface AiGeneratedFeedback {
@@ -88,6 +148,10 @@ export interface StudyMaterial extends UploadedContent {
   presentationContent?: PresentationContent;
   blockDiagramMermaid?: string;
   videoScenes?: VideoScene[];
+  templateVersions?: Partial<Record<string, string>>; // Prompt template versions per artifact: "explanation", "notes.Short", "diagram", ...
+  modelSettings?: Partial<Record<string, string>>; // The model settings per artifact, under the same keys
+  archivedAt?: string; // Set while the material is archived: kept, but hidden from the main list
+  trashedAt?: string; // Set while the material is in the trash, until it is restored or deleted for good
 }
 
 // For Gemini API related types, we will use those from "@google/genai" directly in service.
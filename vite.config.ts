@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // In proxy mode the key stays on the server, so it is left out of the bundle even if it is set here.
+    const geminiApiKey = env.LLM_PROVIDER === 'proxy' ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
@@ -11,8 +13,15 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(geminiApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(geminiApiKey),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_PROXY_URL': JSON.stringify(env.LLM_PROXY_URL),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.OPENAI_IMAGE_MODEL': JSON.stringify(env.OPENAI_IMAGE_MODEL),
+        'process.env.OPENAI_EMBEDDING_MODEL': JSON.stringify(env.OPENAI_EMBEDDING_MODEL)
       },
       resolve: {
         alias: {